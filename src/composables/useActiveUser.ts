@@ -1,5 +1,6 @@
 import { computed, ref } from "vue";
 import { db, logEvent, type UserRecord } from "@/db";
+import { resolveRecordId } from "@/db/sync";
 
 const ACTIVE_USER_KEY = "maf.activeUserId";
 
@@ -14,12 +15,15 @@ async function loadActiveUserFromStorage() {
     return;
   }
 
-  const storedId = Number(window.localStorage.getItem(ACTIVE_USER_KEY) || "");
+  const storedId = window.localStorage.getItem(ACTIVE_USER_KEY);
 
-  if (!Number.isNaN(storedId) && storedId > 0) {
-    const user = await db.users.get(storedId);
+  if (storedId) {
+    // Stored before IDs were strings, or before sync merged the user
+    const userId = await resolveRecordId("users", storedId);
+    const user = userId === undefined ? undefined : await db.users.get(userId);
     if (user) {
       activeUser.value = user;
+      window.localStorage.setItem(ACTIVE_USER_KEY, user.id!);
       await db.users.update(user.id!, { lastActiveAt: Date.now() });
     } else {
       window.localStorage.removeItem(ACTIVE_USER_KEY);
@@ -29,17 +33,37 @@ async function loadActiveUserFromStorage() {
   isLoaded.value = true;
 }
 
-async function setActiveUser(userId: number) {
+/**
+ * Follow the active user to the record sync merged it into, if any. Returns
+ * the user's previous ID when it changed.
+ */
+async function reloadActiveUser() {
+  const previousId = activeUser.value?.id;
+  if (previousId === undefined) return undefined;
+
+  const userId = await resolveRecordId("users", previousId);
+  const user = userId === undefined ? undefined : await db.users.get(userId);
+  if (!user) return undefined;
+  activeUser.value = user;
+  if (user.id === previousId) return undefined;
+
+  if (typeof window !== "undefined") {
+    window.localStorage.setItem(ACTIVE_USER_KEY, user.id!);
+  }
+  return previousId;
+}
+
+async function setActiveUser(userId: string) {
   const user = await db.users.get(userId);
   if (!user) return;
 
   activeUser.value = user;
   if (typeof window !== "undefined") {
-    window.localStorage.setItem(ACTIVE_USER_KEY, String(userId));
+    window.localStorage.setItem(ACTIVE_USER_KEY, userId);
   }
   const timestamp = Date.now();
   await db.users.update(userId, { lastActiveAt: timestamp });
-  await logEvent({
+  logEvent({
     userId,
     type: "user_selected",
     payload: { name: user.name },
@@ -64,7 +88,7 @@ async function createUser(name: string) {
     lastActiveAt: timestamp,
   });
 
-  await logEvent({
+  logEvent({
     userId: id,
     type: "user_created",
     payload: { name: trimmed },
@@ -85,6 +109,7 @@ function useActiveUser() {
     activeUserId: userId,
     isLoaded,
     loadActiveUserFromStorage,
+    reloadActiveUser,
     setActiveUser,
     createUser,
   };
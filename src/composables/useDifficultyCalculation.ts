@@ -1,6 +1,7 @@
 import { computed, type Ref } from 'vue';
-import type { ExerciseRecord, ExerciseMode } from '@/db';
+import type { ExerciseRecord, ExerciseMode, ExerciseOperation } from "@/db";
 import type { DifficultyWeights } from '@/types/difficulty';
+import { getOperation } from "@/utils/operations";
 
 export interface DifficultyRange {
   min: number;
@@ -12,60 +13,45 @@ export interface DifficultyRange {
  */
 export function useDifficultyCalculation() {
   /**
-   * Count total digits in both operands
+   * Count total digits across all operands
    */
-  function countTotalDigits(operandA: number, operandB: number): number {
-    return String(operandA).length + String(operandB).length;
+  function countTotalDigits(operands: number[]): number {
+    return operands.reduce((sum, operand) => sum + String(operand).length, 0);
   }
 
   /**
-   * Count zeros in both operands (negative contribution to difficulty)
+   * Count zeros across all operands (negative contribution to difficulty)
    */
-  function countZeros(operandA: number, operandB: number): number {
-    const strA = String(operandA);
-    const strB = String(operandB);
-    const zeroCount = (strA.match(/0/g) || []).length + (strB.match(/0/g) || []).length;
+  function countZeros(operands: number[]): number {
+    const zeroCount = operands.reduce(
+      (sum, operand) => sum + (String(operand).match(/0/g) || []).length,
+      0,
+    );
     return -zeroCount;
   }
 
   /**
-   * Count carry operations required for addition
+   * Count carry operations required by the exercise's operation
+   * (borrows for subtraction), accumulated over the whole chain
    */
-  function countCarryovers(operandA: number, operandB: number): number {
-    const strA = String(operandA).split('').reverse();
-    const strB = String(operandB).split('').reverse();
-    const maxLen = Math.max(strA.length, strB.length);
-
-    let carryovers = 0;
-    let carry = 0;
-
-    for (let i = 0; i < maxLen; i++) {
-      const digitA = parseInt(strA[i] || '0');
-      const digitB = parseInt(strB[i] || '0');
-      const sum = digitA + digitB + carry;
-
-      if (sum >= 10) {
-        carryovers++;
-        carry = 1;
-      } else {
-        carry = 0;
-      }
-    }
-
-    return carryovers;
+  function countCarryovers(
+    operands: number[],
+    operation: ExerciseOperation = "addition",
+  ): number {
+    return getOperation(operation).countCarries(operands);
   }
 
   /**
    * Calculate raw difficulty score for an exercise
    */
   function calculateDifficultyScore(
-    ex: ExerciseRecord,
+    ex: Pick<ExerciseRecord, "operands" | "operation">,
     weights: DifficultyWeights
   ): number {
     return (
-      weights.digits * countTotalDigits(ex.operandA, ex.operandB) +
-      weights.carryovers * countCarryovers(ex.operandA, ex.operandB) +
-      weights.zeros * countZeros(ex.operandA, ex.operandB)
+      weights.digits * countTotalDigits(ex.operands) +
+      weights.carryovers * countCarryovers(ex.operands, ex.operation) +
+      weights.zeros * countZeros(ex.operands)
     );
   }
 
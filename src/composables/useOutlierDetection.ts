@@ -4,6 +4,8 @@ export interface DataPoint {
   x: number;
   y: number;
   isOutlier?: boolean;
+  /** Source exercise, so a point can be opened in the replay view */
+  exerciseId?: string;
 }
 
 /**
@@ -0,0 +1,360 @@
+import { computed, ref } from "vue";
+import { logEvent, setCurrentProtocolContext, type ProtocolRecord } from "@/db";
+import {
+  useUserSettings,
+  type SettingsOverrides,
+} from "@/composables/useUserSettings";
+import { getBlockLabel, type ProtocolBlock } from "@/types/protocol";
+import { COUNTDOWN_TICK_MS, runCountdown } from "@/utils/countdown";
+
+/**
+ * intro: block instructions are shown and the participant starts the block
+ * countdown: 3-2-1 before an exercise block
+ * running: exercises are being shown
+ * break: a break block is showing its instructions
+ * finished: all blocks are done
+ */
+export type ProtocolPhase =
+  | "intro"
+  | "countdown"
+  | "running"
+  | "break"
+  | "finished";
+
+interface ProtocolRun {
+  userId: string;
+  protocol: ProtocolRecord;
+  blockIndex: number;
+  blockStartedAt: number | null;
+  exercisesShown: number;
+}
+
+const run = ref<ProtocolRun | null>(null);
+const phase = ref<ProtocolPhase | null>(null);
+const countdownRemaining = ref(0);
+// Remaining break time, ticking down; null for breaks without a duration
+const breakRemainingMs = ref<number | null>(null);
+let breakInterval: ReturnType<typeof setInterval> | null = null;
+
+const {
+  loadUserSettings,
+  applySettingsOverrides,
+  evaluationSchedule,
+  fixedDifficulty,
+  timerSettings,
+} = useUserSettings();
+
+const currentBlock = computed<ProtocolBlock | null>(() => {
+  if (!run.value) return null;
+  return run.value.protocol.definition.blocks[run.value.blockIndex] ?? null;
+});
+
+const currentBlockLabel = computed(() =>
+  currentBlock.value && run.value
+    ? getBlockLabel(currentBlock.value, run.value.blockIndex)
+    : "",
+);
+
+function protocolPayload() {
+  if (!run.value) return {};
+  return {
+    protocolName: run.value.protocol.name,
+    blockIndex: run.value.blockIndex,
+    blockKind: currentBlock.value?.kind,
+  };
+}
+
+function stopBreakTimer() {
+  if (breakInterval) {
+    clearInterval(breakInterval);
+    breakInterval = null;
+  }
+  breakRemainingMs.value = null;
+}
+
+function toSettingsOverrides(
+  block: ProtocolBlock,
+  startedAt: number,
+): SettingsOverrides {
+  // Partial block settings are layered over the user's stored ones
+  const overrides: SettingsOverrides = {
+    exerciseMode: block.kind === "timed" ? "timed" : "self-paced",
+    exercisePhase: block.kind === "practice" ? "practice" : "serious",
+    activeOperations: block.operations,
+    operandCount: block.operandCount,
+  };
+
+  if (block.evaluationSchedule) {
+    overrides.evaluationSchedule = {
+      promptProbability:
+        block.evaluationSchedule.promptProbability ??
+        evaluationSchedule.value.promptProbability,
+      scopeWeights: {
+        ...evaluationSchedule.value.scopeWeights,
+        ...block.evaluationSchedule.scopeWeights,
+      },
+    };
+  }
+  if (block.timer) {
+    overrides.timerSettings = { ...timerSettings.value, ...block.timer };
+  }
+  if (block.difficulty) {
+    overrides.adaptiveDifficulty = block.difficulty === "adaptive";
+    overrides.graduallyIncreaseDifficulty = block.difficulty === "progressive";
+    // Progressive difficulty restarts from the easiest level in every block
+    overrides.progressiveDifficultyActivatedAt =
+      block.difficulty === "progressive" ? startedAt : undefined;
+    overrides.fixedDifficulty = {
+      ...fixedDifficulty.value,
+      ...block.fixedDifficulty,
+      enabled: block.difficulty === "fixed",
+    };
+  }
+
+  return overrides;
+}
+
+/**
+ * Re-apply the running block's settings on top of the stored ones, e.g. after
+ * the main view reloaded the user's settings
+ */
+async function applyBlockSettings() {
+  const block = currentBlock.value;
+  if (!run.value || !block) return;
+
+  await loadUserSettings(run.value.userId);
+  if (block.kind !== "break") {
+    applySettingsOverrides(
+      toSettingsOverrides(block, run.value.blockStartedAt ?? Date.now()),
+    );
+  }
+}
+
+async function enterBlock(index: number) {
+  if (!run.value) return;
+  stopBreakTimer();
+
+  const block = run.value.protocol.definition.blocks[index];
+  if (!block) {
+    await finishProtocol();
+    return;
+  }
+
+  run.value.blockIndex = index;
+  run.value.blockStartedAt = null;
+  run.value.exercisesShown = 0;
+  setCurrentProtocolContext({
+    protocolId: run.value.protocol.id!,
+    protocolBlockId: block.id,
+  });
+
+  if (block.kind !== "break") {
+    phase.value = "intro";
+    return;
+  }
+
+  phase.value = "break";
+  run.value.blockStartedAt = Date.now();
+  logEvent({
+    userId: run.value.userId,
+    type: "protocol_block_started",
+    payload: { ...protocolPayload(), minutes: block.minutes },
+  });
+
+  if (block.minutes) {
+    const endsAt = run.value.blockStartedAt + block.minutes * 60_000;
+    breakRemainingMs.value = block.minutes * 60_000;
+    breakInterval = setInterval(() => {
+      breakRemainingMs.value = Math.max(0, endsAt - Date.now());
+      if (breakRemainingMs.value === 0) {
+        void completeBlock();
+      }
+    }, COUNTDOWN_TICK_MS);
+  }
+}
+
+async function startProtocol(userId: string, protocol: ProtocolRecord) {
+  if (!protocol.id) return;
+  if (run.value) await abortProtocol();
+
+  run.value = {
+    userId,
+    protocol,
+    blockIndex: 0,
+    blockStartedAt: null,
+    exercisesShown: 0,
+  };
+  setCurrentProtocolContext({
+    protocolId: protocol.id,
+    protocolBlockId: protocol.definition.blocks[0]?.id ?? "",
+  });
+  logEvent({
+    userId,
+    type: "protocol_started",
+    payload: {
+      protocolName: protocol.name,
+      definition: protocol.definition,
+    },
+  });
+  await enterBlock(0);
+}
+
+/**
+ * Run the countdown and switch to the block's settings. Resolves once
+ * exercises may be shown.
+ */
+async function beginBlock() {
+  const block = currentBlock.value;
+  if (!run.value || !block || phase.value !== "intro") return;
+
+  const seconds = Math.max(
+    0,
+    Math.round(run.value.protocol.definition.countdownSeconds),
+  );
+  phase.value = "countdown";
+  const countdownPayload = {
+    ...protocolPayload(),
+    reason: "protocol_block" as const,
+    seconds,
+  };
+  logEvent({
+    userId: run.value.userId,
+    type: "countdown_started",
+    payload: countdownPayload,
+  });
+
+  const completed = await runCountdown(
+    seconds,
+    (remaining) => (countdownRemaining.value = remaining),
+    // Aborted during the countdown
+    () => phase.value !== "countdown",
+  );
+  if (!completed || !run.value) return;
+  logEvent({
+    userId: run.value.userId,
+    type: "countdown_completed",
+    payload: countdownPayload,
+  });
+
+  run.value.blockStartedAt = Date.now();
+  await applyBlockSettings();
+  phase.value = "running";
+
+  logEvent({
+    userId: run.value.userId,
+    type: "protocol_block_started",
+    payload: {
+      ...protocolPayload(),
+      exercises: block.exercises,
+      minutes: block.minutes,
+      difficulty: block.difficulty,
+      overrides: {
+        operations: block.operations,
+        operandCount: block.operandCount,
+        fixedDifficulty: block.fixedDifficulty,
+        evaluationSchedule: block.evaluationSchedule,
+        timer: block.timer,
+      },
+    },
+  });
+}
+
+function registerExerciseShown() {
+  if (run.value && phase.value === "running") {
+    run.value.exercisesShown++;
+  }
+}
+
+/** Whether the running block has reached its exercise count or time limit */
+function isBlockComplete(now = Date.now()) {
+  const block = currentBlock.value;
+  if (!run.value || !block || phase.value !== "running") return false;
+
+  if (
+    block.exercises !== undefined &&
+    run.value.exercisesShown >= block.exercises
+  ) {
+    return true;
+  }
+  return (
+    block.minutes !== undefined &&
+    run.value.blockStartedAt !== null &&
+    now - run.value.blockStartedAt >= block.minutes * 60_000
+  );
+}
+
+async function completeBlock() {
+  if (!run.value) return;
+  stopBreakTimer();
+
+  logEvent({
+    userId: run.value.userId,
+    type: "protocol_block_completed",
+    payload: {
+      ...protocolPayload(),
+      exercisesShown: run.value.exercisesShown,
+      duration:
+        run.value.blockStartedAt !== null
+          ? Date.now() - run.value.blockStartedAt
+          : undefined,
+    },
+  });
+  await enterBlock(run.value.blockIndex + 1);
+}
+
+async function endRun(type: "protocol_completed" | "protocol_aborted") {
+  if (!run.value) return;
+  stopBreakTimer();
+
+  const { userId } = run.value;
+  logEvent({
+    userId,
+    type,
+    payload: protocolPayload(),
+  });
+  setCurrentProtocolContext(undefined);
+  await loadUserSettings(userId);
+}
+
+async function finishProtocol() {
+  await endRun("protocol_completed");
+  phase.value = "finished";
+}
+
+async function abortProtocol() {
+  await endRun("protocol_aborted");
+  run.value = null;
+  phase.value = null;
+}
+
+/** Keep the run with its user when sync merged the user into another ID */
+function moveRunToUser(fromId: string, toId: string) {
+  if (run.value?.userId === fromId) run.value.userId = toId;
+}
+
+/** Leave the finished screen and return to normal practice */
+function dismissProtocol() {
+  if (phase.value !== "finished") return;
+  run.value = null;
+  phase.value = null;
+}
+
+export function useProtocolRunner() {
+  return {
+    run,
+    phase,
+    countdownRemaining,
+    breakRemainingMs,
+    currentBlock,
+    currentBlockLabel,
+    startProtocol,
+    beginBlock,
+    applyBlockSettings,
+    registerExerciseShown,
+    isBlockComplete,
+    completeBlock,
+    abortProtocol,
+    dismissProtocol,
+    moveRunToUser,
+  };
+}
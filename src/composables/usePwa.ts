@@ -0,0 +1,98 @@
+import { ref } from "vue";
+
+// Chromium only; not part of the DOM library
+interface BeforeInstallPromptEvent extends Event {
+  prompt(): Promise<void>;
+  readonly userChoice: Promise<{ outcome: "accepted" | "dismissed" }>;
+}
+
+export interface StorageEstimate {
+  usageBytes: number;
+  quotaBytes: number;
+}
+
+const installPrompt = ref<BeforeInstallPromptEvent | null>(null);
+const isInstalled = ref(false);
+/** null where the browser can't make storage persistent */
+const storagePersisted = ref<boolean | null>(null);
+const storageEstimate = ref<StorageEstimate | null>(null);
+let started = false;
+
+async function registerServiceWorker() {
+  // The dev server serves modules on demand, which there's no list of to cache
+  if (!import.meta.env.PROD || !("serviceWorker" in navigator)) return;
+  try {
+    await navigator.serviceWorker.register("/sw.js");
+  } catch (error) {
+    console.error("Registering the service worker failed:", error);
+  }
+}
+
+/**
+ * Ask the browser not to evict the database when storage runs low. Chromium
+ * decides by itself, e.g. granting installed apps; Firefox asks the user.
+ */
+async function requestPersistentStorage() {
+  if (!navigator.storage?.persist) {
+    storagePersisted.value = null;
+    return;
+  }
+  try {
+    storagePersisted.value =
+      (await navigator.storage.persisted()) ||
+      (await navigator.storage.persist());
+  } catch (error) {
+    console.error("Requesting persistent storage failed:", error);
+    storagePersisted.value = false;
+  }
+}
+
+async function refreshStorageEstimate() {
+  if (!navigator.storage?.estimate) return;
+  const { usage = 0, quota = 0 } = await navigator.storage.estimate();
+  storageEstimate.value = { usageBytes: usage, quotaBytes: quota };
+}
+
+/** Register the service worker, watch for installability, protect storage */
+function startPwa() {
+  if (started || typeof window === "undefined") return;
+  started = true;
+
+  isInstalled.value = window.matchMedia("(display-mode: standalone)").matches;
+  window.addEventListener("beforeinstallprompt", (event) => {
+    // Keep the browser's own banner away; the app offers installing instead
+    event.preventDefault();
+    installPrompt.value = event as BeforeInstallPromptEvent;
+  });
+  window.addEventListener("appinstalled", () => {
+    installPrompt.value = null;
+    isInstalled.value = true;
+    void requestPersistentStorage();
+  });
+
+  void registerServiceWorker();
+  void requestPersistentStorage();
+}
+
+async function promptInstall() {
+  const prompt = installPrompt.value;
+  if (!prompt) return;
+  // A prompt can only be shown once
+  installPrompt.value = null;
+  await prompt.prompt();
+  const { outcome } = await prompt.userChoice;
+  if (outcome === "accepted") isInstalled.value = true;
+}
+
+export function usePwa() {
+  return {
+    installPrompt,
+    isInstalled,
+    storagePersisted,
+    storageEstimate,
+    startPwa,
+    promptInstall,
+    requestPersistentStorage,
+    refreshStorageEstimate,
+  };
+}
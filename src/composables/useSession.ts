@@ -0,0 +1,119 @@
+import { ref } from "vue";
+import {
+  db,
+  type ExerciseMode,
+  type SessionEndReason,
+  type SessionRecord,
+} from "@/db";
+import {
+  SESSION_IDLE_TIMEOUT_MS,
+  endSession,
+  getOpenSession,
+  resumeSession,
+  startSession,
+  touchSession,
+} from "@/db/sessions";
+
+const activeSession = ref<SessionRecord | null>(null);
+let hiddenAt: number | null = null;
+
+async function beginSession(userId: string, mode: ExerciseMode) {
+  activeSession.value = (await startSession(userId, mode)) ?? null;
+  return activeSession.value;
+}
+
+async function closeActiveSession(reason: SessionEndReason, endedAt?: number) {
+  const session = activeSession.value;
+  activeSession.value = null;
+  if (session) {
+    await endSession(session, reason, endedAt);
+  }
+}
+
+/**
+ * Make sure an open session exists for the user before showing an exercise.
+ * Sessions idle for longer than SESSION_IDLE_TIMEOUT_MS are closed at their
+ * last activity and replaced by a fresh one.
+ */
+async function ensureSession(userId: string, mode: ExerciseMode) {
+  const now = Date.now();
+  const current = activeSession.value;
+
+  if (current && current.userId !== userId) {
+    await closeActiveSession("user_changed", current.lastActivityAt);
+  } else if (current) {
+    if (now - current.lastActivityAt <= SESSION_IDLE_TIMEOUT_MS) {
+      return current;
+    }
+    await closeActiveSession("idle", current.lastActivityAt);
+    return beginSession(userId, mode);
+  }
+
+  // Resume a session left open by a reload or navigation, if still fresh
+  const open = await getOpenSession(userId);
+  if (open) {
+    if (now - open.lastActivityAt <= SESSION_IDLE_TIMEOUT_MS) {
+      activeSession.value = open;
+      await resumeSession(open);
+      return open;
+    }
+    await endSession(open, "idle", open.lastActivityAt);
+  }
+
+  return beginSession(userId, mode);
+}
+
+async function recordSessionActivity(timestamp = Date.now()) {
+  const session = activeSession.value;
+  if (!session?.id) return;
+
+  session.lastActivityAt = timestamp;
+  await touchSession(session.id, timestamp);
+}
+
+async function restartSession(
+  userId: string,
+  mode: ExerciseMode,
+  reason: SessionEndReason,
+) {
+  await closeActiveSession(reason);
+  return beginSession(userId, mode);
+}
+
+/** Re-read the active session, e.g. after sync moved it to another user ID */
+async function reloadActiveSession() {
+  const session = activeSession.value;
+  if (!session?.id) return;
+  activeSession.value = (await db.sessions.get(session.id)) ?? null;
+}
+
+function markSessionHidden(timestamp = Date.now()) {
+  hiddenAt = timestamp;
+}
+
+/**
+ * Called when the page becomes visible again. Returns true when the absence
+ * was long enough to close the previous session and start a new one.
+ */
+async function markSessionVisible(userId: string, mode: ExerciseMode) {
+  const leftAt = hiddenAt;
+  hiddenAt = null;
+  if (leftAt === null || !activeSession.value) return false;
+  if (Date.now() - leftAt <= SESSION_IDLE_TIMEOUT_MS) return false;
+
+  await closeActiveSession("hidden", leftAt);
+  await beginSession(userId, mode);
+  return true;
+}
+
+export function useSession() {
+  return {
+    activeSession,
+    ensureSession,
+    recordSessionActivity,
+    restartSession,
+    reloadActiveSession,
+    markSessionHidden,
+    markSessionVisible,
+  };
+}
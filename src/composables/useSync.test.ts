@@ -0,0 +1,88 @@
+import { afterEach, beforeEach, describe, expect, it, vi } from "vitest";
+import { useActiveUser } from "@/composables/useActiveUser";
+import { followSyncMerges } from "@/composables/useSync";
+import { useUserSettings } from "@/composables/useUserSettings";
+import { db } from "@/db";
+import { flushEvents } from "@/db/eventQueue";
+import { createMockSyncServer } from "@/db/mockSyncServer";
+import { syncNow } from "@/db/sync";
+
+const server = createMockSyncServer({
+  latencyMs: 0,
+  databaseName: "mockSyncFollowMerges",
+});
+const smallerId = "00000000-0000-4000-8000-000000000000";
+
+// Changes made in the millisecond a sync starts are sent again by the next
+// one, so the clock moves on before every sync
+function syncLater() {
+  vi.setSystemTime(Date.now() + 1_000);
+  return syncNow(server);
+}
+
+beforeEach(async () => {
+  vi.useFakeTimers({ toFake: ["Date"] });
+  vi.setSystemTime(new Date(2026, 0, 1));
+  window.localStorage.clear();
+  await db.open();
+});
+
+afterEach(async () => {
+  await flushEvents();
+  await server.reset();
+  await db.delete();
+  vi.useRealTimers();
+});
+
+describe("followSyncMerges", () => {
+  it("moves the active user to the ID a pull merged it into", async () => {
+    const { createUser, activeUserId } = useActiveUser();
+    const { updateExerciseMode, exerciseMode } = useUserSettings();
+    const user = await createUser("Ada");
+    const localId = user!.id!;
+    await updateExerciseMode(localId, "timed");
+    await server.push([
+      {
+        table: "users",
+        uid: smallerId,
+        modifiedAt: 1,
+        data: { name: "Ada", createdAt: 1, lastActiveAt: 1 },
+      },
+    ]);
+
+    const summary = await syncLater();
+    expect(summary.merged).toBe(true);
+    await followSyncMerges();
+
+    expect(activeUserId.value).toBe(smallerId);
+    expect(window.localStorage.getItem("maf.activeUserId")).toBe(smallerId);
+    expect(exerciseMode.value).toBe("timed");
+
+    // A write after the merge lands on the merged user's settings row
+    await updateExerciseMode(activeUserId.value!, "self-paced");
+    const settings = await db.userSettings.toArray();
+    expect(settings).toEqual([
+      expect.objectContaining({
+        userId: smallerId,
+        exerciseMode: "self-paced",
+      }),
+    ]);
+
+    await syncLater();
+    const { documents } = await server.pull(0, 100);
+    expect(
+      documents.filter((document) => document.data?.userId === localId),
+    ).toEqual([]);
+  });
+
+  it("leaves the active user alone when the pull merged nothing", async () => {
+    const { createUser, activeUserId } = useActiveUser();
+    const user = await createUser("Bea");
+
+    const summary = await syncLater();
+    expect(summary.merged).toBe(false);
+    await followSyncMerges();
+
+    expect(activeUserId.value).toBe(user!.id);
+  });
+});
@@ -0,0 +1,152 @@
+import { computed, ref } from "vue";
+import { useActiveUser } from "@/composables/useActiveUser";
+import { useProtocolRunner } from "@/composables/useProtocolRunner";
+import { useSession } from "@/composables/useSession";
+import { useUserSettings } from "@/composables/useUserSettings";
+import { createMockSyncServer } from "@/db/mockSyncServer";
+import { syncNow, type SyncSummary } from "@/db/sync";
+import type { SyncAdapter } from "@/db/syncAdapter";
+
+const SYNC_BACKEND_KEY = "maf.syncBackend";
+const SYNC_INTERVAL_MS = 60_000;
+
+export type SyncBackend = "off" | "mock";
+
+export const SYNC_BACKENDS: { id: SyncBackend; label: string }[] = [
+  { id: "off", label: "Off (this device only)" },
+  { id: "mock", label: "Local mock server (for testing)" },
+];
+
+export type SyncStatus = "off" | "idle" | "syncing" | "offline" | "error";
+
+const backend = ref<SyncBackend>("off");
+const status = ref<SyncStatus>("off");
+const lastSummary = ref<SyncSummary | null>(null);
+const lastError = ref("");
+let adapter: SyncAdapter | null = null;
+let intervalId: ReturnType<typeof setInterval> | null = null;
+let started = false;
+
+function createAdapter(value: SyncBackend) {
+  return value === "mock" ? createMockSyncServer() : null;
+}
+
+function isOffline() {
+  return typeof navigator !== "undefined" && !navigator.onLine;
+}
+
+/**
+ * Move what the app holds in memory onto the records a pull merged duplicates
+ * into, so later writes don't go to an ID that no longer exists
+ */
+export async function followSyncMerges() {
+  const { activeUserId, reloadActiveUser } = useActiveUser();
+  const { reloadActiveSession } = useSession();
+  const { run, applyBlockSettings, moveRunToUser } = useProtocolRunner();
+  const { loadUserSettings } = useUserSettings();
+
+  const previousId = await reloadActiveUser();
+  const userId = activeUserId.value;
+  if (userId === null) return;
+  if (previousId !== undefined) {
+    moveRunToUser(previousId, userId);
+    await reloadActiveSession();
+  }
+  // Merged settings may hold values from the other device
+  if (run.value?.userId === userId) {
+    await applyBlockSettings();
+  } else {
+    await loadUserSettings(userId);
+  }
+}
+
+async function runSync() {
+  if (!adapter) return;
+  if (isOffline()) {
+    status.value = "offline";
+    return;
+  }
+
+  status.value = "syncing";
+  try {
+    lastSummary.value = await syncNow(adapter);
+    if (lastSummary.value.merged) await followSyncMerges();
+    lastError.value = "";
+    status.value = "idle";
+  } catch (error) {
+    console.error("Sync failed:", error);
+    lastError.value = error instanceof Error ? error.message : String(error);
+    status.value = isOffline() ? "offline" : "error";
+  }
+}
+
+function applyBackend(value: SyncBackend) {
+  backend.value = value;
+  adapter = createAdapter(value);
+  lastSummary.value = null;
+  lastError.value = "";
+
+  if (intervalId !== null) {
+    clearInterval(intervalId);
+    intervalId = null;
+  }
+  if (!adapter) {
+    status.value = "off";
+    return;
+  }
+  status.value = "idle";
+  intervalId = setInterval(() => void runSync(), SYNC_INTERVAL_MS);
+  void runSync();
+}
+
+/** Restore the chosen backend and keep syncing in the background */
+function startSync() {
+  if (started || typeof window === "undefined") return;
+  started = true;
+
+  window.addEventListener("online", () => void runSync());
+  window.addEventListener("offline", () => {
+    if (adapter) status.value = "offline";
+  });
+
+  const stored = window.localStorage.getItem(SYNC_BACKEND_KEY);
+  applyBackend(stored === "mock" ? stored : "off");
+}
+
+function setSyncBackend(value: SyncBackend) {
+  if (typeof window !== "undefined") {
+    window.localStorage.setItem(SYNC_BACKEND_KEY, value);
+  }
+  applyBackend(value);
+}
+
+export function useSync() {
+  const statusLabel = computed(() => {
+    switch (status.value) {
+      case "off":
+        return "Sync is off";
+      case "syncing":
+        return "Syncing…";
+      case "offline":
+        return "Offline; changes sync when the connection returns";
+      case "error":
+        return `Sync failed: ${lastError.value}`;
+      case "idle":
+        return lastSummary.value
+          ? `Synced at ${new Date(lastSummary.value.finishedAt).toLocaleTimeString()}`
+          : "Waiting to sync";
+    }
+    return "";
+  });
+
+  return {
+    backend,
+    status,
+    statusLabel,
+    lastSummary,
+    lastError,
+    startSync,
+    setSyncBackend,
+    syncNow: runSync,
+  };
+}
@@ -1,27 +1,157 @@
 import { ref } from "vue";
-import { db, type ExerciseMode } from "@/db";
+import {
+  db,
+  type AnswerSubmissionMode,
+  type ExerciseMode,
+  type ExerciseOperation,
+  type ExercisePhase,
+  type UserSettingsRecord,
+} from "@/db";
+import { MAX_OPERAND_COUNT, MIN_OPERAND_COUNT } from "@/utils/exercise";
+import {
+  mergeEvaluationSchedule,
+  type EvaluationSchedule,
+} from "@/types/evaluation";
+import { mergeStaircaseState, type StaircaseState } from "@/types/staircase";
+import { mergeTimerSettings, type TimerSettings } from "@/types/timer";
+import {
+  mergeDifficultyWeights,
+  mergeFixedDifficulty,
+  type DifficultyWeights,
+  type FixedDifficultySettings,
+} from "@/types/difficulty";
 
 const graduallyIncreaseDifficulty = ref(false);
 const progressiveDifficultyActivatedAt = ref<number | undefined>(undefined);
 const exerciseMode = ref<ExerciseMode>("self-paced");
+const exercisePhase = ref<ExercisePhase>("serious");
+const evaluationSchedule = ref<EvaluationSchedule>(mergeEvaluationSchedule());
+const activeOperations = ref<ExerciseOperation[]>(["addition"]);
+const operandCount = ref(MIN_OPERAND_COUNT);
+const adaptiveDifficulty = ref(false);
+const staircase = ref<StaircaseState>(mergeStaircaseState());
+const difficultyWeights = ref<DifficultyWeights>(mergeDifficultyWeights());
+const fixedDifficulty = ref<FixedDifficultySettings>(mergeFixedDifficulty());
+const timerSettings = ref<TimerSettings>(mergeTimerSettings());
+const answerSubmission = ref<AnswerSubmissionMode>("auto-advance");
+
+/** Settings a protocol block can override without touching the stored row */
+export interface SettingsOverrides {
+  exerciseMode?: ExerciseMode;
+  exercisePhase?: ExercisePhase;
+  graduallyIncreaseDifficulty?: boolean;
+  progressiveDifficultyActivatedAt?: number;
+  adaptiveDifficulty?: boolean;
+  fixedDifficulty?: FixedDifficultySettings;
+  activeOperations?: ExerciseOperation[];
+  operandCount?: number;
+  evaluationSchedule?: EvaluationSchedule;
+  timerSettings?: TimerSettings;
+}
+
+/**
+ * Apply a partial update to the user's settings row, creating it if needed
+ */
+async function persistSettings(
+  userId: string,
+  changes: Partial<Omit<UserSettingsRecord, "id" | "userId" | "updatedAt">>,
+) {
+  const existing = await db.userSettings.get({ userId });
+  const now = Date.now();
+
+  if (existing) {
+    await db.userSettings.update(existing.id!, { ...changes, updatedAt: now });
+  } else {
+    await db.userSettings.add({
+      userId,
+      graduallyIncreaseDifficulty: false,
+      ...changes,
+      updatedAt: now,
+    });
+  }
+}
 
 export function useUserSettings() {
-  async function loadUserSettings(userId: number) {
+  async function loadUserSettings(userId: string) {
     const settings = await db.userSettings.get({ userId });
     if (settings) {
       graduallyIncreaseDifficulty.value = settings.graduallyIncreaseDifficulty;
       progressiveDifficultyActivatedAt.value = settings.progressiveDifficultyActivatedAt;
       exerciseMode.value = settings.exerciseMode ?? "self-paced";
+      exercisePhase.value = settings.exercisePhase ?? "serious";
+      evaluationSchedule.value = mergeEvaluationSchedule(
+        settings.evaluationSchedule,
+      );
+      activeOperations.value = settings.activeOperations?.length
+        ? [...settings.activeOperations]
+        : ["addition"];
+      operandCount.value = settings.operandCount ?? MIN_OPERAND_COUNT;
+      adaptiveDifficulty.value = settings.adaptiveDifficulty ?? false;
+      staircase.value = mergeStaircaseState(settings.staircase);
+      difficultyWeights.value = mergeDifficultyWeights(
+        settings.difficultyWeights,
+      );
+      fixedDifficulty.value = mergeFixedDifficulty(settings.fixedDifficulty);
+      timerSettings.value = mergeTimerSettings(settings.timer);
+      answerSubmission.value = settings.answerSubmission ?? "auto-advance";
     } else {
       // Default values
       graduallyIncreaseDifficulty.value = false;
       progressiveDifficultyActivatedAt.value = undefined;
       exerciseMode.value = "self-paced";
+      exercisePhase.value = "serious";
+      evaluationSchedule.value = mergeEvaluationSchedule();
+      activeOperations.value = ["addition"];
+      operandCount.value = MIN_OPERAND_COUNT;
+      adaptiveDifficulty.value = false;
+      staircase.value = mergeStaircaseState();
+      difficultyWeights.value = mergeDifficultyWeights();
+      fixedDifficulty.value = mergeFixedDifficulty();
+      timerSettings.value = mergeTimerSettings();
+      answerSubmission.value = "auto-advance";
+    }
+  }
+
+  /**
+   * Replace settings in memory only; the next loadUserSettings restores the
+   * stored values
+   */
+  function applySettingsOverrides(overrides: SettingsOverrides) {
+    if (overrides.exerciseMode !== undefined) {
+      exerciseMode.value = overrides.exerciseMode;
+    }
+    if (overrides.exercisePhase !== undefined) {
+      exercisePhase.value = overrides.exercisePhase;
+    }
+    if (overrides.graduallyIncreaseDifficulty !== undefined) {
+      graduallyIncreaseDifficulty.value = overrides.graduallyIncreaseDifficulty;
+      progressiveDifficultyActivatedAt.value =
+        overrides.progressiveDifficultyActivatedAt;
+    }
+    if (overrides.adaptiveDifficulty !== undefined) {
+      adaptiveDifficulty.value = overrides.adaptiveDifficulty;
+    }
+    if (overrides.fixedDifficulty !== undefined) {
+      fixedDifficulty.value = mergeFixedDifficulty(overrides.fixedDifficulty);
+    }
+    if (overrides.activeOperations?.length) {
+      activeOperations.value = [...overrides.activeOperations];
+    }
+    if (overrides.operandCount !== undefined) {
+      operandCount.value = overrides.operandCount;
+    }
+    if (overrides.evaluationSchedule !== undefined) {
+      evaluationSchedule.value = mergeEvaluationSchedule(
+        overrides.evaluationSchedule,
+      );
+    }
+    if (overrides.timerSettings !== undefined) {
+      timerSettings.value = mergeTimerSettings(overrides.timerSettings);
     }
   }
 
   async function updateGraduallyIncreaseDifficulty(
-    userId: number,
+    userId: string,
     value: boolean,
   ) {
     const existing = await db.userSettings.get({ userId });
@@ -48,7 +178,7 @@ export function useUserSettings() {
     progressiveDifficultyActivatedAt.value = activatedAt;
   }
 
-  async function updateExerciseMode(userId: number, mode: ExerciseMode) {
+  async function updateExerciseMode(userId: string, mode: ExerciseMode) {
     const existing = await db.userSettings.get({ userId });
     const now = Date.now();
 
@@ -68,12 +198,102 @@ export function useUserSettings() {
     exerciseMode.value = mode;
   }
 
+  async function updateExercisePhase(userId: string, phase: ExercisePhase) {
+    await persistSettings(userId, { exercisePhase: phase });
+    exercisePhase.value = phase;
+  }
+
+  async function updateEvaluationSchedule(
+    userId: string,
+    schedule: EvaluationSchedule,
+  ) {
+    const payload = {
+      promptProbability: schedule.promptProbability,
+      scopeWeights: { ...schedule.scopeWeights },
+    };
+    await persistSettings(userId, { evaluationSchedule: payload });
+    evaluationSchedule.value = mergeEvaluationSchedule(payload);
+  }
+
+  async function updateActiveOperations(
+    userId: string,
+    operations: ExerciseOperation[],
+  ) {
+    // At least one operation has to stay active to generate exercises
+    if (operations.length === 0) return;
+
+    await persistSettings(userId, { activeOperations: [...operations] });
+    activeOperations.value = [...operations];
+  }
+
+  async function updateOperandCount(userId: string, count: number) {
+    const clamped = Math.min(
+      MAX_OPERAND_COUNT,
+      Math.max(MIN_OPERAND_COUNT, Math.round(count)),
+    );
+    await persistSettings(userId, { operandCount: clamped });
+    operandCount.value = clamped;
+  }
+
+  async function updateAdaptiveDifficulty(userId: string, value: boolean) {
+    await persistSettings(userId, { adaptiveDifficulty: value });
+    adaptiveDifficulty.value = value;
+  }
+
+  async function updateStaircaseState(userId: string, state: StaircaseState) {
+    await persistSettings(userId, { staircase: { ...state } });
+    staircase.value = { ...state };
+  }
+
+  async function updateFixedDifficulty(
+    userId: string,
+    settings: FixedDifficultySettings,
+  ) {
+    const payload = mergeFixedDifficulty(settings);
+    await persistSettings(userId, { fixedDifficulty: payload });
+    fixedDifficulty.value = payload;
+  }
+
+  async function updateTimerSettings(userId: string, settings: TimerSettings) {
+    const payload = mergeTimerSettings(settings);
+    await persistSettings(userId, { timer: payload });
+    timerSettings.value = payload;
+  }
+
+  async function updateAnswerSubmission(
+    userId: string,
+    mode: AnswerSubmissionMode,
+  ) {
+    await persistSettings(userId, { answerSubmission: mode });
+    answerSubmission.value = mode;
+  }
+
   return {
     graduallyIncreaseDifficulty,
     progressiveDifficultyActivatedAt,
     exerciseMode,
+    exercisePhase,
+    evaluationSchedule,
+    activeOperations,
+    operandCount,
+    adaptiveDifficulty,
+    staircase,
+    difficultyWeights,
+    fixedDifficulty,
+    timerSettings,
+    answerSubmission,
     loadUserSettings,
+    applySettingsOverrides,
     updateGraduallyIncreaseDifficulty,
     updateExerciseMode,
+    updateExercisePhase,
+    updateEvaluationSchedule,
+    updateActiveOperations,
+    updateOperandCount,
+    updateAdaptiveDifficulty,
+    updateStaircaseState,
+    updateFixedDifficulty,
+    updateTimerSettings,
+    updateAnswerSubmission,
   };
 }
@@ -0,0 +1,61 @@
+import { computed, ref, watch, type Ref } from "vue";
+
+/**
+ * Windowed rendering of a long list of fixed-height rows. Bind `containerRef`
+ * to a scrollable element of fixed height, call `onScroll` from its scroll
+ * event, render only `visibleItems`, and pad the list with `paddingTop` and
+ * `paddingBottom` so the scrollbar reflects the whole list.
+ */
+export function useVirtualList<T>(
+  items: Ref<T[]>,
+  rowHeight: number,
+  overscan = 10,
+) {
+  const containerRef = ref<HTMLElement | null>(null);
+  const scrollTop = ref(0);
+  const viewportHeight = ref(600);
+
+  function onScroll() {
+    if (!containerRef.value) return;
+    scrollTop.value = containerRef.value.scrollTop;
+    viewportHeight.value = containerRef.value.clientHeight;
+  }
+
+  const startIndex = computed(() =>
+    Math.max(0, Math.floor(scrollTop.value / rowHeight) - overscan),
+  );
+
+  const endIndex = computed(() =>
+    Math.min(
+      items.value.length,
+      Math.ceil((scrollTop.value + viewportHeight.value) / rowHeight) +
+        overscan,
+    ),
+  );
+
+  const visibleItems = computed(() =>
+    items.value.slice(startIndex.value, endIndex.value),
+  );
+  const paddingTop = computed(() => startIndex.value * rowHeight);
+  const paddingBottom = computed(
+    () => (items.value.length - endIndex.value) * rowHeight,
+  );
+
+  function scrollToTop() {
+    if (containerRef.value) containerRef.value.scrollTop = 0;
+    scrollTop.value = 0;
+  }
+
+  // Measure the viewport once the container is mounted
+  watch(containerRef, () => onScroll());
+
+  return {
+    containerRef,
+    onScroll,
+    scrollToTop,
+    visibleItems,
+    startIndex,
+    paddingTop,
+    paddingBottom,
+  };
+}
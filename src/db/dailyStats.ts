@@ -0,0 +1,166 @@
+import Dexie from "dexie";
+import {
+  db,
+  type DailyStatsRecord,
+  type EvaluationRecord,
+  type ExerciseRecord,
+} from "@/db";
+import { getDayBounds, toDayKey, type DateRange } from "@/utils/dateRange";
+import { getSolveTimeMs } from "@/utils/timing";
+
+type DailyStatsTotals = Omit<
+  DailyStatsRecord,
+  "id" | "userId" | "day" | "mode" | "phase" | "updatedAt"
+>;
+
+function emptyTotals(): DailyStatsTotals {
+  return {
+    shown: 0,
+    solved: 0,
+    timedOut: 0,
+    incorrect: 0,
+    solveTimeCount: 0,
+    solveTimeSumMs: 0,
+    solveTimeSumSquaresMs: 0,
+    ratingCount: 0,
+    ratingSum: 0,
+  };
+}
+
+function summariseDay(
+  userId: string,
+  day: string,
+  exercises: ExerciseRecord[],
+  evaluations: EvaluationRecord[],
+): DailyStatsRecord[] {
+  const groups = new Map<string, DailyStatsRecord>();
+  const groupFor = ({
+    mode,
+    phase,
+  }: Pick<ExerciseRecord, "mode" | "phase">) => {
+    const resolvedPhase = phase ?? "serious";
+    const key = `${mode}|${resolvedPhase}`;
+    if (!groups.has(key)) {
+      groups.set(key, {
+        userId,
+        day,
+        mode,
+        phase: resolvedPhase,
+        ...emptyTotals(),
+        updatedAt: Date.now(),
+      });
+    }
+    return groups.get(key)!;
+  };
+
+  exercises.forEach((ex) => {
+    const group = groupFor(ex);
+    group.shown++;
+    if (ex.timedOut) group.timedOut++;
+    if (ex.isCorrect === false) group.incorrect++;
+    if (ex.solvedAt === undefined) return;
+
+    group.solved++;
+    const duration = getSolveTimeMs(ex)!;
+    if (!ex.timedOut && duration >= 500 && duration <= 120_000) {
+      group.solveTimeCount++;
+      group.solveTimeSumMs += duration;
+      group.solveTimeSumSquaresMs += duration * duration;
+    }
+  });
+
+  evaluations.forEach((evaluation) => {
+    if (evaluation.rating < 1 || evaluation.rating > 9) return;
+    const group = groupFor(evaluation);
+    group.ratingCount++;
+    group.ratingSum += evaluation.rating;
+  });
+
+  return [...groups.values()];
+}
+
+/**
+ * Recompute the summary rows of one user and day from its exercises and
+ * evaluations. Recomputing a whole day keeps the rows correct when an
+ * exercise's mode or phase changes afterwards.
+ */
+export async function refreshDailyStats(userId: string, day: string) {
+  const [start, end] = getDayBounds(day);
+
+  await db.transaction(
+    "rw",
+    db.dailyStats,
+    db.exercises,
+    db.evaluations,
+    async () => {
+      const [exercises, evaluations] = await Promise.all([
+        db.exercises
+          .where("[userId+displayedAt]")
+          .between([userId, start], [userId, end], true, true)
+          .toArray(),
+        db.evaluations
+          .where("[userId+createdAt]")
+          .between([userId, start], [userId, end], true, true)
+          .toArray(),
+      ]);
+
+      await db.dailyStats.where("[userId+day]").equals([userId, day]).delete();
+      await db.dailyStats.bulkAdd(
+        summariseDay(userId, day, exercises, evaluations),
+      );
+    },
+  );
+}
+
+export async function refreshDailyStatsAt(userId: string, timestamp: number) {
+  await refreshDailyStats(userId, toDayKey(timestamp));
+}
+
+export async function refreshDailyStatsForExercise(exerciseId: string) {
+  const exercise = await db.exercises.get(exerciseId);
+  if (exercise) {
+    await refreshDailyStatsAt(exercise.userId, exercise.displayedAt);
+  }
+}
+
+/** Rebuild every summary row of a user, e.g. after an import */
+export async function rebuildDailyStats(userId: string) {
+  const days = new Set<string>();
+  await db.exercises
+    .where("userId")
+    .equals(userId)
+    .each((exercise) => days.add(toDayKey(exercise.displayedAt)));
+  await db.evaluations
+    .where("userId")
+    .equals(userId)
+    .each((evaluation) => days.add(toDayKey(evaluation.createdAt)));
+
+  await db.dailyStats.where("userId").equals(userId).delete();
+  for (const day of days) {
+    await refreshDailyStats(userId, day);
+  }
+  return days.size;
+}
+
+/** Build the summary once for histories recorded before it existed */
+export async function ensureDailyStats(userId: string) {
+  const [rows, exercises] = await Promise.all([
+    db.dailyStats.where("userId").equals(userId).count(),
+    db.exercises.where("userId").equals(userId).count(),
+  ]);
+  if (rows === 0 && exercises > 0) {
+    await rebuildDailyStats(userId);
+  }
+}
+
+export async function listDailyStats(userId: string, range: DateRange) {
+  return db.dailyStats
+    .where("[userId+day]")
+    .between(
+      [userId, range.from || Dexie.minKey],
+      [userId, range.to || Dexie.maxKey],
+      true,
+      true,
+    )
+    .toArray();
+}
@@ -0,0 +1,311 @@
+import { afterEach, beforeEach, describe, expect, it } from "vitest";
+import { db, type SyncMetadata } from "@/db";
+import {
+  exportDataBundle,
+  importDataBundle,
+  parseDataBundle,
+} from "@/db/dataBundle";
+import { flushEvents } from "@/db/eventQueue";
+
+// Change stamps differ between devices, so they are left out of comparisons
+function withoutStamps<T extends SyncMetadata>(records: T[]) {
+  return records.map((record) => {
+    const copy = { ...record };
+    delete copy.localChangeAt;
+    delete copy.syncModifiedAt;
+    return copy;
+  });
+}
+
+async function seedUser() {
+  const userId = await db.users.add({
+    name: "Ada",
+    createdAt: 1_000,
+    lastActiveAt: 1_000,
+  });
+  await db.userSettings.add({
+    userId,
+    graduallyIncreaseDifficulty: true,
+    updatedAt: 1_000,
+  });
+  const protocolId = await db.protocols.add({
+    name: "Warm-up",
+    definition: {
+      name: "Warm-up",
+      countdownSeconds: 3,
+      blocks: [{ id: "a", kind: "self-paced", exercises: 1 }],
+    },
+    createdAt: 1_000,
+    updatedAt: 1_000,
+  });
+  const sessionId = await db.sessions.add({
+    userId,
+    startedAt: 2_000,
+    lastActivityAt: 5_000,
+    endedAt: 5_000,
+    mode: "self-paced",
+    settingsSnapshot: null,
+    deviceInfo: {} as never,
+  });
+  const exerciseId = await db.exercises.add({
+    userId,
+    sessionId,
+    protocolId,
+    operands: [12, 30],
+    operation: "addition",
+    answer: 42,
+    displayedAt: 3_000,
+    solvedAt: 4_000,
+    mode: "self-paced",
+  });
+  const evaluationId = await db.evaluations.add({
+    userId,
+    sessionId,
+    scope: "the last exercise",
+    rating: 4,
+    exerciseIds: [exerciseId],
+    mode: "self-paced",
+    createdAt: 4_500,
+  });
+  await db.exercises.update(exerciseId, { evaluationId });
+  await db.events.bulkAdd([
+    {
+      userId,
+      sessionId,
+      exerciseId,
+      type: "exercise_solved",
+      payload: {
+        mode: "self-paced",
+        inputValue: "42",
+        submissionMode: "enter",
+      },
+      timestamp: 4_000,
+      sequence: 1,
+    },
+    {
+      userId,
+      sessionId,
+      type: "evaluation_attached",
+      payload: { evaluationId, exerciseIds: [exerciseId] },
+      timestamp: 4_500,
+      sequence: 2,
+    },
+  ]);
+  return userId;
+}
+
+async function readUser(userId: string) {
+  return {
+    users: withoutStamps(await db.users.toArray()),
+    settings: withoutStamps(await db.userSettings.toArray()).map((settings) => {
+      delete settings.fieldModifiedAt;
+      return settings;
+    }),
+    protocols: withoutStamps(await db.protocols.toArray()),
+    sessions: withoutStamps(await db.sessions.toArray()),
+    exercises: withoutStamps(await db.exercises.toArray()),
+    evaluations: withoutStamps(await db.evaluations.toArray()),
+    events: withoutStamps(
+      await db.events.where({ userId }).sortBy("sequence"),
+    ).filter((event) => event.type !== "data_imported"),
+  };
+}
+
+beforeEach(async () => {
+  await db.open();
+});
+
+afterEach(async () => {
+  await flushEvents();
+  await db.delete();
+});
+
+describe("exporting and importing a bundle", () => {
+  it("restores every record with its ID and references", async () => {
+    const userId = await seedUser();
+    const before = await readUser(userId);
+    const text = JSON.stringify(await exportDataBundle(userId));
+
+    await db.delete();
+    await db.open();
+    const summary = await importDataBundle(parseDataBundle(text));
+
+    expect(summary).toMatchObject({
+      userId,
+      createdUser: true,
+      settingsImported: true,
+      protocols: { imported: 1, skipped: 0 },
+      sessions: { imported: 1, skipped: 0 },
+      exercises: { imported: 1, skipped: 0 },
+      evaluations: { imported: 1, skipped: 0 },
+      events: { imported: 2, skipped: 0 },
+    });
+    expect(await readUser(userId)).toEqual(before);
+  });
+
+  it("skips records that are already present", async () => {
+    const userId = await seedUser();
+    const bundle = await exportDataBundle(userId);
+
+    const summary = await importDataBundle(bundle);
+
+    expect(summary).toMatchObject({
+      userId,
+      createdUser: false,
+      settingsImported: false,
+      protocols: { imported: 0, skipped: 1 },
+      sessions: { imported: 0, skipped: 1 },
+      exercises: { imported: 0, skipped: 1 },
+      evaluations: { imported: 0, skipped: 1 },
+      events: { imported: 0, skipped: 2 },
+    });
+  });
+
+  it("rewrites the numeric IDs of version 1 bundles", async () => {
+    const bundle = parseDataBundle(
+      JSON.stringify({
+        exportedAt: "2026-01-01T00:00:00.000Z",
+        user: { id: 3, uid: "user-uid", name: "Bea", createdAt: 1_000 },
+        sessions: [
+          {
+            id: 8,
+            uid: "session-uid",
+            userId: 3,
+            startedAt: 2_000,
+            lastActivityAt: 5_000,
+            mode: "timed",
+          },
+        ],
+        exercises: [
+          {
+            id: 21,
+            uid: "exercise-uid",
+            userId: 3,
+            sessionId: 8,
+            evaluationId: 5,
+            operands: [1, 2],
+            answer: 3,
+            displayedAt: 3_000,
+            mode: "timed",
+          },
+        ],
+        evaluations: [
+          {
+            id: 5,
+            uid: "evaluation-uid",
+            userId: 3,
+            scope: "this task",
+            rating: 2,
+            exerciseIds: [21],
+            mode: "timed",
+            createdAt: 4_000,
+          },
+        ],
+        events: [
+          {
+            id: 41,
+            uid: "event-uid",
+            userId: 3,
+            type: "evaluation_attached",
+            payload: { evaluationId: 5, exerciseIds: [21] },
+            timestamp: 4_000,
+          },
+        ],
+      }),
+    );
+
+    const summary = await importDataBundle(bundle);
+
+    expect(summary.userId).toBe("user-uid");
+    expect(await db.exercises.get("exercise-uid")).toMatchObject({
+      userId: "user-uid",
+      sessionId: "session-uid",
+      evaluationId: "evaluation-uid",
+      operation: "addition",
+    });
+    expect(await db.evaluations.get("evaluation-uid")).toMatchObject({
+      exerciseIds: ["exercise-uid"],
+    });
+    expect(await db.sessions.get("session-uid")).toMatchObject({
+      endedAt: 5_000,
+    });
+    const event = await db.events.get("event-uid");
+    expect(event).toMatchObject({
+      sequence: 41,
+      payload: {
+        evaluationId: "evaluation-uid",
+        exerciseIds: ["exercise-uid"],
+      },
+    });
+    expect(event).not.toHaveProperty("uid");
+  });
+
+  it("matches events on their IDs", async () => {
+    const userId = await seedUser();
+    const bundle = await exportDataBundle(userId);
+    const solved = bundle.events.find(
+      (event) => event.type === "exercise_solved",
+    )!;
+    bundle.events.push({ ...solved, id: "same-millisecond" });
+
+    const summary = await importDataBundle(bundle);
+
+    expect(summary.events).toEqual({ imported: 1, skipped: 2, rejected: 0 });
+    expect(await db.events.get("same-millisecond")).toMatchObject({
+      timestamp: solved.timestamp,
+      type: solved.type,
+    });
+  });
+
+  it("leaves out and reports events that don't match the catalog", async () => {
+    const userId = await seedUser();
+    const bundle = await exportDataBundle(userId);
+    await db.delete();
+    await db.open();
+    const solved = bundle.events.find(
+      (event) => event.type === "exercise_solved",
+    )!;
+    solved.payload.mode = "relaxed";
+
+    const summary = await importDataBundle(bundle);
+
+    expect(summary.events).toEqual({ imported: 1, skipped: 0, rejected: 1 });
+    expect(summary.rejectedEvents).toEqual([
+      `Event ${bundle.events.indexOf(solved) + 1} ("exercise_solved"): ` +
+        'mode has unexpected value "relaxed".',
+    ]);
+    expect(await db.events.get(solved.id!)).toBeUndefined();
+  });
+
+  it("gives imported records new IDs when theirs are taken", async () => {
+    const userId = await seedUser();
+    const bundle = await exportDataBundle(userId);
+    bundle.user = { ...bundle.user, name: "Bea" };
+
+    const summary = await importDataBundle(bundle);
+
+    expect(summary.userId).not.toBe(userId);
+    expect(summary.exercises).toEqual({ imported: 1, skipped: 0 });
+    const exercises = await db.exercises
+      .where({ userId: summary.userId })
+      .toArray();
+    expect(exercises[0]?.id).not.toBe(bundle.exercises[0]?.id);
+  });
+});
+
+describe("parseDataBundle", () => {
+  it("rejects files it cannot read", () => {
+    expect(() => parseDataBundle("{")).toThrow("The file is not valid JSON.");
+    expect(() =>
+      parseDataBundle('{"version":3,"user":{"name":"Ada"}}'),
+    ).toThrow("Unsupported export version 3.");
+    expect(() => parseDataBundle('{"user":{}}')).toThrow(
+      "The export does not name a user.",
+    );
+    expect(() =>
+      parseDataBundle(
+        JSON.stringify({ user: { name: "Ada" }, exercises: [{ answer: 1 }] }),
+      ),
+    ).toThrow('Entry 1 in "exercises" is malformed.');
+  });
+});
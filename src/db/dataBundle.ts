@@ -0,0 +1,517 @@
+import {
+  db,
+  logEvent,
+  type EvaluationRecord,
+  type EventRecord,
+  type ExerciseRecord,
+  type ProtocolRecord,
+  type SessionRecord,
+  type SyncTable,
+  type UserRecord,
+  type UserSettingsRecord,
+} from "@/db";
+import { rebuildDailyStats } from "@/db/dailyStats";
+import { upgradeLegacyEvent, validateEventPayload } from "@/db/eventSchema";
+import { flushEvents } from "@/db/eventQueue";
+import { validateProtocol } from "@/types/protocol";
+
+/**
+ * Bumped when the bundle layout changes; bundles without one are version 1.
+ * Version 2 bundles have string IDs, version 1 numeric IDs plus a uid.
+ */
+export const DATA_BUNDLE_VERSION = 2;
+
+export interface DataBundle {
+  version?: number;
+  exportedAt: string;
+  user: UserRecord;
+  settings?: UserSettingsRecord;
+  exercises: ExerciseRecord[];
+  events: EventRecord[];
+  evaluations: EvaluationRecord[];
+  sessions: SessionRecord[];
+  /** Protocols referenced by the exercises */
+  protocols?: ProtocolRecord[];
+}
+
+export interface ImportTableCount {
+  imported: number;
+  skipped: number;
+}
+
+export interface EventImportCount extends ImportTableCount {
+  /** Events left out because their payload doesn't match the event catalog */
+  rejected: number;
+}
+
+export interface DataBundleImportSummary {
+  userId: string;
+  userName: string;
+  createdUser: boolean;
+  settingsImported: boolean;
+  protocols: ImportTableCount;
+  sessions: ImportTableCount;
+  exercises: ImportTableCount;
+  evaluations: ImportTableCount;
+  events: EventImportCount;
+  /** Why each rejected event was left out */
+  rejectedEvents: string[];
+}
+
+export async function exportDataBundle(userId: string): Promise<DataBundle> {
+  const user = await db.users.get(userId);
+  if (!user) throw new Error("User not found.");
+
+  await flushEvents();
+  const exercises = await db.exercises.where({ userId }).toArray();
+  const protocolIds = [
+    ...new Set(
+      exercises
+        .map((exercise) => exercise.protocolId)
+        .filter((id): id is string => id !== undefined),
+    ),
+  ];
+
+  return {
+    version: DATA_BUNDLE_VERSION,
+    exportedAt: new Date().toISOString(),
+    user,
+    settings: await db.userSettings.get({ userId }),
+    exercises,
+    events: await db.events.where({ userId }).toArray(),
+    evaluations: await db.evaluations.where({ userId }).toArray(),
+    sessions: await db.sessions.where({ userId }).toArray(),
+    protocols: (await db.protocols.bulkGet(protocolIds)).filter(
+      (protocol): protocol is ProtocolRecord => protocol !== undefined,
+    ),
+  };
+}
+
+function isObject(value: unknown): value is Record<string, unknown> {
+  return typeof value === "object" && value !== null && !Array.isArray(value);
+}
+
+function isNumber(value: unknown): value is number {
+  return typeof value === "number" && Number.isFinite(value);
+}
+
+function requireArray(
+  data: Record<string, unknown>,
+  key: string,
+  isValid: (item: Record<string, unknown>) => boolean,
+) {
+  const value = data[key] ?? [];
+  if (!Array.isArray(value)) {
+    throw new Error(`"${key}" must be a list.`);
+  }
+  const index = value.findIndex((item) => !isObject(item) || !isValid(item));
+  if (index !== -1) {
+    throw new Error(`Entry ${index + 1} in "${key}" is malformed.`);
+  }
+  return value;
+}
+
+/**
+ * Parse and validate a JSON export; throws with a user-facing message when the
+ * file is not a bundle this version understands
+ */
+export function parseDataBundle(text: string): DataBundle {
+  let data: unknown;
+  try {
+    data = JSON.parse(text);
+  } catch {
+    throw new Error("The file is not valid JSON.");
+  }
+
+  if (!isObject(data)) {
+    throw new Error("The file is not a data export.");
+  }
+  const version = data.version ?? 1;
+  if (version !== 1 && version !== DATA_BUNDLE_VERSION) {
+    throw new Error(`Unsupported export version ${String(data.version)}.`);
+  }
+
+  const user = data.user;
+  if (!isObject(user) || typeof user.name !== "string" || !user.name.trim()) {
+    throw new Error("The export does not name a user.");
+  }
+  if (data.settings !== undefined && !isObject(data.settings)) {
+    throw new Error('"settings" must be an object.');
+  }
+
+  return {
+    version,
+    exportedAt: typeof data.exportedAt === "string" ? data.exportedAt : "",
+    user: user as unknown as UserRecord,
+    settings: data.settings as UserSettingsRecord | undefined,
+    exercises: requireArray(
+      data,
+      "exercises",
+      (item) =>
+        Array.isArray(item.operands) &&
+        item.operands.every(isNumber) &&
+        isNumber(item.answer) &&
+        isNumber(item.displayedAt),
+    ) as ExerciseRecord[],
+    events: requireArray(
+      data,
+      "events",
+      (item) =>
+        typeof item.type === "string" &&
+        isNumber(item.timestamp) &&
+        (item.preciseTimestamp === undefined ||
+          isNumber(item.preciseTimestamp)),
+    ) as EventRecord[],
+    evaluations: requireArray(
+      data,
+      "evaluations",
+      (item) =>
+        Array.isArray(item.exerciseIds) &&
+        isNumber(item.rating) &&
+        isNumber(item.createdAt),
+    ) as EvaluationRecord[],
+    sessions: requireArray(data, "sessions", (item) =>
+      isNumber(item.startedAt),
+    ) as SessionRecord[],
+    protocols: requireArray(
+      data,
+      "protocols",
+      (item) =>
+        typeof item.name === "string" &&
+        validateProtocol(item.definition).length === 0 &&
+        isNumber(item.createdAt),
+    ) as ProtocolRecord[],
+  };
+}
+
+// Natural keys used to recognise records that are already present, since
+// records created on different browsers have different IDs
+function exerciseKey(exercise: ExerciseRecord) {
+  return `${exercise.displayedAt}|${exercise.operation ?? "addition"}|${exercise.operands.join(",")}`;
+}
+
+function evaluationKey(evaluation: EvaluationRecord) {
+  return `${evaluation.createdAt}|${evaluation.scope}|${evaluation.rating}`;
+}
+
+// ID that names the record on every device: version 1 bundles kept it as uid
+function bundleUid(record: { id?: unknown; uid?: unknown }) {
+  if (typeof record.uid === "string") return record.uid;
+  return typeof record.id === "string" ? record.id : undefined;
+}
+
+// Imported records keep their ID, so syncing with the device they came from
+// doesn't duplicate them, unless a record here already has it
+async function findTakenUids(
+  table: SyncTable,
+  records: { id?: unknown; uid?: unknown }[],
+) {
+  const uids = records
+    .map(bundleUid)
+    .filter((uid): uid is string => uid !== undefined);
+  const taken = await db.table(table).where(":id").anyOf(uids).primaryKeys();
+  return new Set<unknown>(taken);
+}
+
+function claimUid(
+  record: { id?: unknown; uid?: unknown },
+  taken: Set<unknown>,
+) {
+  const uid = bundleUid(record);
+  if (uid === undefined || taken.has(uid)) return undefined;
+  taken.add(uid);
+  return uid;
+}
+
+// Version 1 bundles carry a uid field that records no longer have
+function withoutUid<T extends object>(record: T): T {
+  const copy: T & { uid?: unknown } = { ...record };
+  delete copy.uid;
+  return copy;
+}
+
+function remap(map: Map<unknown, string>, id: unknown) {
+  return id === undefined || id === null ? undefined : map.get(id);
+}
+
+function remapIds(map: Map<unknown, string>, ids: unknown) {
+  if (!Array.isArray(ids)) return [];
+  return ids
+    .map((id) => remap(map, id))
+    .filter((id): id is string => id !== undefined);
+}
+
+/**
+ * Merge a bundle into the local database under the user of the same name,
+ * creating it when missing. Records keep their IDs unless one is taken here,
+ * and every reference between them is rewritten; records that already exist
+ * locally are matched on their timestamps and skipped. Events are matched on
+ * their IDs instead, and those whose payload doesn't match the event catalog
+ * are left out and reported, as logEvent would.
+ */
+export async function importDataBundle(
+  bundle: DataBundle,
+): Promise<DataBundleImportSummary> {
+  const userName = bundle.user.name.trim();
+
+  // Queued events take part in the duplicate check
+  await flushEvents();
+  const summary = await db.transaction(
+    "rw",
+    [
+      db.users,
+      db.userSettings,
+      db.protocols,
+      db.sessions,
+      db.exercises,
+      db.evaluations,
+      db.events,
+    ],
+    async () => {
+      const now = Date.now();
+      const takenUids = {
+        users: await findTakenUids("users", [bundle.user]),
+        userSettings: await findTakenUids(
+          "userSettings",
+          bundle.settings ? [bundle.settings] : [],
+        ),
+        protocols: await findTakenUids("protocols", bundle.protocols ?? []),
+        sessions: await findTakenUids("sessions", bundle.sessions),
+        exercises: await findTakenUids("exercises", bundle.exercises),
+        evaluations: await findTakenUids("evaluations", bundle.evaluations),
+        events: await findTakenUids("events", bundle.events),
+      };
+      const existingUser = await db.users
+        .where("name")
+        .equals(userName)
+        .first();
+      const userId =
+        existingUser?.id ??
+        (await db.users.add({
+          id: claimUid(bundle.user, takenUids.users),
+          name: userName,
+          createdAt: isNumber(bundle.user.createdAt)
+            ? bundle.user.createdAt
+            : now,
+          lastActiveAt: isNumber(bundle.user.lastActiveAt)
+            ? bundle.user.lastActiveAt
+            : now,
+        }));
+
+      // Local settings win; the bundle only seeds a user that has none
+      let settingsImported = false;
+      if (bundle.settings && !(await db.userSettings.get({ userId }))) {
+        const settings: UserSettingsRecord = {
+          ...withoutUid(bundle.settings),
+          id: claimUid(bundle.settings, takenUids.userSettings),
+          userId,
+        };
+        await db.userSettings.add(settings);
+        settingsImported = true;
+      }
+
+      // Protocols are shared by all users and matched on name and creation time
+      const protocolIds = new Map<unknown, string>();
+      const existingProtocols = new Map(
+        (await db.protocols.toArray()).map((protocol) => [
+          `${protocol.name}|${protocol.createdAt}`,
+          protocol.id!,
+        ]),
+      );
+      const protocols: ImportTableCount = { imported: 0, skipped: 0 };
+      for (const protocol of bundle.protocols ?? []) {
+        const key = `${protocol.name}|${protocol.createdAt}`;
+        let id = existingProtocols.get(key);
+        if (id !== undefined) {
+          protocols.skipped++;
+        } else {
+          const record: ProtocolRecord = {
+            ...withoutUid(protocol),
+            id: claimUid(protocol, takenUids.protocols),
+          };
+          id = await db.protocols.add(record);
+          existingProtocols.set(key, id);
+          protocols.imported++;
+        }
+        if (protocol.id !== undefined) protocolIds.set(protocol.id, id);
+      }
+
+      const sessionIds = new Map<unknown, string>();
+      const existingSessions = new Map(
+        (await db.sessions.where({ userId }).toArray()).map((session) => [
+          session.startedAt,
+          session.id!,
+        ]),
+      );
+      const sessions: ImportTableCount = { imported: 0, skipped: 0 };
+      for (const session of bundle.sessions) {
+        let id = existingSessions.get(session.startedAt);
+        if (id !== undefined) {
+          sessions.skipped++;
+        } else {
+          // A session still open on the other device must not be resumed here
+          const record: SessionRecord = {
+            ...withoutUid(session),
+            id: claimUid(session, takenUids.sessions),
+            userId,
+            endedAt: session.endedAt ?? session.lastActivityAt,
+          };
+          id = await db.sessions.add(record);
+          existingSessions.set(session.startedAt, id);
+          sessions.imported++;
+        }
+        if (session.id !== undefined) sessionIds.set(session.id, id);
+      }
+
+      const exerciseIds = new Map<unknown, string>();
+      const existingExercises = new Map(
+        (await db.exercises.where({ userId }).toArray()).map((exercise) => [
+          exerciseKey(exercise),
+          exercise.id!,
+        ]),
+      );
+      // Evaluation links are restored once evaluations have their new IDs
+      const pendingEvaluationLinks: [string, unknown][] = [];
+      const exercises: ImportTableCount = { imported: 0, skipped: 0 };
+      for (const exercise of bundle.exercises) {
+        const key = exerciseKey(exercise);
+        let id = existingExercises.get(key);
+        if (id !== undefined) {
+          exercises.skipped++;
+        } else {
+          const record: ExerciseRecord = {
+            ...withoutUid(exercise),
+            id: claimUid(exercise, takenUids.exercises),
+            operation: exercise.operation ?? "addition",
+            userId,
+            sessionId: remap(sessionIds, exercise.sessionId),
+            protocolId: remap(protocolIds, exercise.protocolId),
+            evaluationId: undefined,
+          };
+          id = await db.exercises.add(record);
+          existingExercises.set(key, id);
+          if (exercise.evaluationId !== undefined) {
+            pendingEvaluationLinks.push([id, exercise.evaluationId]);
+          }
+          exercises.imported++;
+        }
+        if (exercise.id !== undefined) exerciseIds.set(exercise.id, id);
+      }
+
+      const evaluationIds = new Map<unknown, string>();
+      const existingEvaluations = new Map(
+        (await db.evaluations.where({ userId }).toArray()).map((evaluation) => [
+          evaluationKey(evaluation),
+          evaluation.id!,
+        ]),
+      );
+      const evaluations: ImportTableCount = { imported: 0, skipped: 0 };
+      for (const evaluation of bundle.evaluations) {
+        const key = evaluationKey(evaluation);
+        let id = existingEvaluations.get(key);
+        if (id !== undefined) {
+          evaluations.skipped++;
+        } else {
+          const record: EvaluationRecord = {
+            ...withoutUid(evaluation),
+            id: claimUid(evaluation, takenUids.evaluations),
+            userId,
+            exerciseIds: remapIds(exerciseIds, evaluation.exerciseIds),
+            sessionId: remap(sessionIds, evaluation.sessionId),
+          };
+          id = await db.evaluations.add(record);
+          existingEvaluations.set(key, id);
+          evaluations.imported++;
+        }
+        if (evaluation.id !== undefined) evaluationIds.set(evaluation.id, id);
+      }
+
+      for (const [exerciseId, oldEvaluationId] of pendingEvaluationLinks) {
+        const evaluationId = remap(evaluationIds, oldEvaluationId);
+        if (evaluationId !== undefined) {
+          await db.exercises.update(exerciseId, { evaluationId });
+        }
+      }
+
+      // Events of the same millisecond are told apart by their IDs alone
+      const existingEvents = new Set<unknown>(
+        await db.events.where({ userId }).primaryKeys(),
+      );
+      const newEvents: EventRecord[] = [];
+      const events: EventImportCount = { imported: 0, skipped: 0, rejected: 0 };
+      const rejectedEvents: string[] = [];
+      for (const [index, event] of bundle.events.entries()) {
+        const uid = bundleUid(event);
+        if (uid !== undefined && existingEvents.has(uid)) {
+          events.skipped++;
+          continue;
+        }
+        if (uid !== undefined) existingEvents.add(uid);
+
+        const payload = { ...(isObject(event.payload) ? event.payload : {}) };
+        if ("evaluationId" in payload) {
+          payload.evaluationId = remap(evaluationIds, payload.evaluationId);
+        }
+        if ("exerciseIds" in payload) {
+          payload.exerciseIds = remapIds(exerciseIds, payload.exerciseIds);
+        }
+        if ("userId" in payload) payload.userId = userId;
+
+        const record: EventRecord = upgradeLegacyEvent({
+          id: claimUid(event, takenUids.events),
+          userId,
+          type: event.type,
+          exerciseId: remap(exerciseIds, event.exerciseId),
+          sessionId: remap(sessionIds, event.sessionId),
+          protocolId: remap(protocolIds, event.protocolId),
+          protocolBlockId: event.protocolBlockId,
+          payload,
+          timestamp: event.timestamp,
+          preciseTimestamp: isNumber(event.preciseTimestamp)
+            ? event.preciseTimestamp
+            : undefined,
+          // Version 1 bundles kept the order in the auto-increment IDs
+          sequence: isNumber(event.sequence)
+            ? event.sequence
+            : isNumber(event.id)
+              ? event.id
+              : undefined,
+          schemaVersion: event.schemaVersion,
+        });
+        const problems = validateEventPayload(record.type, record.payload);
+        if (problems.length > 0) {
+          events.rejected++;
+          rejectedEvents.push(
+            `Event ${index + 1} ("${record.type}"): ${problems.join(", ")}.`,
+          );
+          continue;
+        }
+        newEvents.push(record);
+        events.imported++;
+      }
+      await db.events.bulkAdd(newEvents);
+
+      return {
+        userId,
+        userName,
+        createdUser: !existingUser,
+        settingsImported,
+        protocols,
+        sessions,
+        exercises,
+        evaluations,
+        events,
+        rejectedEvents,
+      };
+    },
+  );
+
+  logEvent({
+    userId: summary.userId,
+    type: "data_imported",
+    payload: { ...summary, exportedAt: bundle.exportedAt },
+  });
+  await rebuildDailyStats(summary.userId);
+
+  return summary;
+}
@@ -0,0 +1,77 @@
+import { afterEach, beforeEach, describe, expect, it } from "vitest";
+import { db, type ExerciseRecord } from "@/db";
+import { getScopeExerciseIds } from "@/db/evaluations";
+
+function addExercise(overrides: Partial<ExerciseRecord>) {
+  return db.exercises.add({
+    userId: "user",
+    sessionId: "session",
+    phase: "serious",
+    operands: [12, 30],
+    operation: "addition",
+    answer: 42,
+    displayedAt: 1_000,
+    mode: "self-paced",
+    ...overrides,
+  });
+}
+
+beforeEach(async () => {
+  await db.open();
+});
+
+afterEach(async () => {
+  await db.delete();
+});
+
+describe("getScopeExerciseIds", () => {
+  it("returns the latest answered exercises first", async () => {
+    const solved = await addExercise({ displayedAt: 1_000, solvedAt: 2_000 });
+    const incorrect = await addExercise({
+      displayedAt: 3_000,
+      submittedAt: 4_000,
+      isCorrect: false,
+    });
+    const timedOut = await addExercise({ displayedAt: 5_000, timedOut: true });
+
+    expect(await getScopeExerciseIds("user", 5, "serious", "session")).toEqual([
+      timedOut,
+      incorrect,
+      solved,
+    ]);
+    expect(await getScopeExerciseIds("user", 2, "serious", "session")).toEqual([
+      timedOut,
+      incorrect,
+    ]);
+  });
+
+  it("stays within the session and phase", async () => {
+    const current = await addExercise({ displayedAt: 4_000, solvedAt: 4_500 });
+    await addExercise({
+      displayedAt: 1_000,
+      solvedAt: 1_500,
+      sessionId: "old",
+    });
+    await addExercise({
+      displayedAt: 2_000,
+      solvedAt: 2_500,
+      phase: "practice",
+    });
+    await addExercise({ displayedAt: 3_000, solvedAt: 3_500, userId: "other" });
+
+    expect(await getScopeExerciseIds("user", 5, "serious", "session")).toEqual([
+      current,
+    ]);
+  });
+
+  it("leaves out exercises cut short without an answer", async () => {
+    await addExercise({ displayedAt: 1_000 });
+
+    expect(await getScopeExerciseIds("user", 5, "serious", "session")).toEqual(
+      [],
+    );
+    expect(await getScopeExerciseIds("user", 5, "serious", undefined)).toEqual(
+      [],
+    );
+  });
+});
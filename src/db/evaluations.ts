@@ -1,11 +1,22 @@
-import { db, logEvent, type EvaluationScope, type ExerciseMode } from "@/db";
+import {
+  db,
+  getCurrentSessionId,
+  logEvent,
+  type EvaluationScope,
+  type ExerciseMode,
+  type ExercisePhase,
+} from "@/db";
+import type { EvaluationSamplingDecision } from "@/utils/evaluationSchedule";
+import { refreshDailyStatsAt } from "@/db/dailyStats";
 
 export interface SaveEvaluationInput {
-  userId: number;
+  userId: string;
   scope: EvaluationScope;
   rating: number;
-  exerciseIds: number[];
+  exerciseIds: string[];
   mode: ExerciseMode;
+  phase: ExercisePhase;
+  sessionId?: string;
 }
 
 export async function saveEvaluation({
@@ -14,6 +25,8 @@ export async function saveEvaluation({
   rating,
   exerciseIds,
   mode,
+  phase,
+  sessionId = getCurrentSessionId(),
 }: SaveEvaluationInput) {
   const createdAt = Date.now();
   const evaluationId = await db.evaluations.add({
@@ -22,10 +35,12 @@ export async function saveEvaluation({
     rating,
     exerciseIds,
     mode,
+    phase,
     createdAt,
+    sessionId,
   });
 
-  await logEvent({
+  logEvent({
     userId,
     type: "evaluation_submitted",
     payload: {
@@ -34,23 +49,78 @@ export async function saveEvaluation({
       rating,
       exerciseIds,
       mode,
+      phase,
     },
     timestamp: createdAt,
   });
+  await refreshDailyStatsAt(userId, createdAt);
 
   return db.evaluations.get(evaluationId);
 }
 
 export async function logEvaluationPrompt(
-  userId: number,
-  exerciseId: number,
+  userId: string,
+  exerciseId: string,
   scope: EvaluationScope,
   mode: ExerciseMode,
 ) {
-  await logEvent({
+  logEvent({
     userId,
     type: "evaluation_prompted",
     exerciseId,
     payload: { scope, mode },
   });
 }
+
+/**
+ * The most recent answered exercises an evaluation can cover: those of the
+ * current session and phase, so a rating never reaches across a break or a
+ * switch between practice and serious. Exercises cut short never had an
+ * outcome and are left out.
+ */
+export async function getScopeExerciseIds(
+  userId: string,
+  count: number,
+  phase: ExercisePhase,
+  sessionId = getCurrentSessionId(),
+) {
+  if (sessionId === undefined) return [];
+  const sessionExercises = await db.exercises
+    .where("sessionId")
+    .equals(sessionId)
+    .filter(
+      (exercise) =>
+        exercise.userId === userId &&
+        (exercise.phase ?? "serious") === phase &&
+        (exercise.solvedAt !== undefined ||
+          exercise.submittedAt !== undefined ||
+          !!exercise.timedOut),
+    )
+    .toArray();
+
+  return sessionExercises
+    .sort((a, b) => b.displayedAt - a.displayedAt)
+    .slice(0, count)
+    .map((exercise) => exercise.id)
+    .filter((id): id is string => id !== undefined);
+}
+
+export async function logEvaluationSampling(
+  userId: string,
+  exerciseId: string,
+  decision: EvaluationSamplingDecision,
+  exerciseIds: string[],
+  mode: ExerciseMode,
+) {
+  logEvent({
+    userId,
+    type: "evaluation_sampled",
+    exerciseId,
+    payload: {
+      ...decision,
+      exerciseIds,
+      collectedExerciseCount: exerciseIds.length,
+      mode,
+    },
+  });
+}
@@ -0,0 +1,116 @@
+import { db, type EventRecord } from "@/db";
+
+/** Longest time an event waits in memory before it is written */
+export const EVENT_FLUSH_DELAY_MS = 1000;
+/** Queue length that triggers a write without waiting for the delay */
+export const EVENT_FLUSH_BATCH_SIZE = 50;
+
+export interface EventWriterStats {
+  pending: number;
+  flushes: number;
+  eventsWritten: number;
+  failedFlushes: number;
+  /** Events left out because their payload didn't match the catalog */
+  rejectedEvents: number;
+  /** Why the last write failed or event was rejected */
+  lastError: string | null;
+  largestBatch: number;
+  lastFlushAt: number | null;
+  lastFlushDurationMs: number | null;
+  maxFlushDurationMs: number;
+}
+
+const queue: EventRecord[] = [];
+const stats: Omit<EventWriterStats, "pending"> = {
+  flushes: 0,
+  eventsWritten: 0,
+  failedFlushes: 0,
+  rejectedEvents: 0,
+  lastError: null,
+  largestBatch: 0,
+  lastFlushAt: null,
+  lastFlushDurationMs: null,
+  maxFlushDurationMs: 0,
+};
+// Events are keyed by random IDs, so their order is kept separately
+let nextSequence = 0;
+let flushTimer: ReturnType<typeof setTimeout> | null = null;
+let flushChain: Promise<void> = Promise.resolve();
+// Kept by main.ts; workers load this module for its types and have no page
+let pageHidden = false;
+
+async function writePending() {
+  if (queue.length === 0) return;
+
+  const batch = queue.splice(0, queue.length);
+  const startedAt = performance.now();
+  try {
+    await db.transaction("rw", db.events, () => db.events.bulkAdd(batch));
+  } catch (error) {
+    // Keep the events for the next attempt, ahead of newer ones
+    queue.unshift(...batch);
+    stats.failedFlushes++;
+    stats.lastError = `Writing ${batch.length} events failed: ${String(error)}`;
+    console.error("Writing events failed:", error);
+    scheduleFlush();
+    return;
+  }
+
+  const durationMs = performance.now() - startedAt;
+  stats.flushes++;
+  stats.eventsWritten += batch.length;
+  stats.largestBatch = Math.max(stats.largestBatch, batch.length);
+  stats.lastFlushAt = Date.now();
+  stats.lastFlushDurationMs = durationMs;
+  stats.maxFlushDurationMs = Math.max(stats.maxFlushDurationMs, durationMs);
+}
+
+/**
+ * Write every queued event. Resolves once they are stored, so code reading
+ * events back calls this first. Must not be awaited inside a transaction.
+ */
+export function flushEvents() {
+  if (flushTimer !== null) {
+    clearTimeout(flushTimer);
+    flushTimer = null;
+  }
+  flushChain = flushChain.then(writePending);
+  return flushChain;
+}
+
+function scheduleFlush() {
+  if (flushTimer === null) {
+    flushTimer = setTimeout(() => void flushEvents(), EVENT_FLUSH_DELAY_MS);
+  }
+}
+
+/**
+ * Follow the page's visibility. A hidden page may not come back, so what is
+ * queued is written, and so is every event queued while it stays hidden.
+ */
+export function setPageHidden(hidden: boolean) {
+  pageHidden = hidden;
+  if (hidden) void flushEvents();
+}
+
+/** Queue an event for the next batched write instead of writing it now */
+export function enqueueEvent(event: EventRecord) {
+  queue.push({ ...event, sequence: nextSequence++ });
+  if (queue.length >= EVENT_FLUSH_BATCH_SIZE || pageHidden) {
+    void flushEvents();
+  } else {
+    scheduleFlush();
+  }
+}
+
+/** Count an event that was not queued because it failed validation */
+export function rejectEvent(reason: string) {
+  stats.rejectedEvents++;
+  stats.lastError = reason;
+  console.error(reason);
+}
+
+/** Shown in Settings, where a writer that keeps failing can be noticed */
+export function getEventWriterStats(): EventWriterStats {
+  return { pending: queue.length, ...stats };
+}
@@ -0,0 +1,135 @@
+import { describe, expect, it } from "vitest";
+import type { EventRecord } from "@/db";
+import {
+  EVENT_SCHEMA_VERSION,
+  isEventOfType,
+  upgradeLegacyEvent,
+  validateEventPayload,
+} from "@/db/eventSchema";
+
+function event(overrides: Partial<EventRecord>): EventRecord {
+  return {
+    userId: "user",
+    type: "window_focus",
+    payload: { focused: true },
+    timestamp: 1_000,
+    ...overrides,
+  };
+}
+
+describe("validateEventPayload", () => {
+  it("accepts a payload that matches its type", () => {
+    expect(
+      validateEventPayload("exercise_solved", {
+        mode: "timed",
+        inputValue: "42",
+        submissionMode: "enter",
+      }),
+    ).toEqual([]);
+  });
+
+  it("accepts optional and nullable fields left out or null", () => {
+    expect(
+      validateEventPayload("evaluation_sampled", {
+        prompted: false,
+        promptRoll: 0.9,
+        promptProbability: 0.2,
+        scope: null,
+        scopeRoll: null,
+        requestedExerciseCount: 0,
+        exerciseIds: [],
+        collectedExerciseCount: 0,
+        mode: "self-paced",
+      }),
+    ).toEqual([]);
+  });
+
+  it("names every field that deviates", () => {
+    expect(
+      validateEventPayload("exercise_solved", {
+        mode: "relaxed",
+        inputValue: 42,
+        keystrokeCount: Number.NaN,
+        extra: true,
+      }),
+    ).toEqual([
+      'mode has unexpected value "relaxed"',
+      "inputValue is not a string",
+      "keystrokeCount is not a number",
+      "submissionMode is missing",
+      "extra is not part of the schema",
+    ]);
+  });
+
+  it("tells arrays and objects apart", () => {
+    expect(
+      validateEventPayload("evaluation_attached", {
+        evaluationId: "evaluation",
+        exerciseIds: { 0: "exercise" },
+      }),
+    ).toEqual(["exerciseIds is not an array"]);
+    expect(
+      validateEventPayload("session_started", {
+        mode: "timed",
+        deviceInfo: [],
+      }),
+    ).toEqual(["deviceInfo is not an object"]);
+  });
+
+  it("rejects unknown types and payloads that are not objects", () => {
+    expect(validateEventPayload("exercise_teleported", {})).toEqual([
+      'unknown event type "exercise_teleported"',
+    ]);
+    expect(validateEventPayload("window_focus", null)).toEqual([
+      "payload is not an object",
+    ]);
+  });
+});
+
+describe("isEventOfType", () => {
+  it("trusts events stamped with the current schema version", () => {
+    const stamped = event({
+      payload: { focused: "yes" },
+      schemaVersion: EVENT_SCHEMA_VERSION,
+    });
+    expect(isEventOfType(stamped, "window_focus")).toBe(true);
+  });
+
+  it("checks the payload of older events", () => {
+    expect(isEventOfType(event({}), "window_focus")).toBe(true);
+    expect(
+      isEventOfType(event({ payload: { focused: "yes" } }), "window_focus"),
+    ).toBe(false);
+    expect(isEventOfType(event({}), "document_visibility")).toBe(false);
+  });
+});
+
+describe("upgradeLegacyEvent", () => {
+  it("renames mode toggles recorded before the schema", () => {
+    const legacy = event({
+      type: "exercise_mode_changed",
+      payload: { from: "self-paced", to: "timed" },
+    });
+    expect(upgradeLegacyEvent(legacy)).toEqual({
+      ...legacy,
+      type: "exercise_mode_toggled",
+    });
+  });
+
+  it("keeps per-exercise mode changes", () => {
+    const legacy = event({
+      type: "exercise_mode_changed",
+      payload: { mode: "timed" },
+    });
+    expect(upgradeLegacyEvent(legacy)).toBe(legacy);
+  });
+
+  it("leaves events stamped with a schema version alone", () => {
+    const stamped = event({
+      type: "exercise_mode_changed",
+      payload: { from: "self-paced", to: "timed" },
+      schemaVersion: EVENT_SCHEMA_VERSION,
+    });
+    expect(upgradeLegacyEvent(stamped)).toBe(stamped);
+  });
+});
@@ -0,0 +1,491 @@
+import type {
+  AnswerErrorType,
+  AnswerSubmissionMode,
+  EvaluationScope,
+  EventRecord,
+  ExerciseMode,
+  ExerciseOperation,
+  ExercisePhase,
+  SessionDeviceInfo,
+  SessionEndReason,
+} from "@/db";
+import type { DataBundleImportSummary } from "@/db/dataBundle";
+import type {
+  DifficultyWeights,
+  FixedDifficultySettings,
+} from "@/types/difficulty";
+import type {
+  ProtocolBlock,
+  ProtocolBlockKind,
+  ExperimentProtocol,
+  ProtocolDifficulty,
+} from "@/types/protocol";
+import type { StaircaseState } from "@/types/staircase";
+import type {
+  TimerCompletionPolicy,
+  TimerDurationPolicy,
+  TimerSettings,
+} from "@/types/timer";
+import { EVALUATION_SCOPES } from "@/types/evaluation";
+
+/**
+ * Version stamped on every event written through logEvent. Events without one
+ * were recorded before the catalog below existed, and version 2 events before
+ * IDs were strings; both are validated on read.
+ */
+export const EVENT_SCHEMA_VERSION = 3;
+
+/** Fields that protocol events carry while a protocol runs */
+type ProtocolFields = {
+  protocolName?: string;
+  blockIndex?: number;
+  blockKind?: ProtocolBlockKind;
+};
+
+type CountdownPayload = ProtocolFields & {
+  reason: "protocol_block" | "serious_phase";
+  seconds: number;
+};
+
+/** Payload of every event type, keyed by type */
+export interface EventPayloads {
+  user_created: { name: string };
+  user_selected: { name: string };
+
+  session_started: { mode: ExerciseMode; deviceInfo: SessionDeviceInfo };
+  session_resumed: { lastActivityAt: number };
+  session_ended: { reason: SessionEndReason; duration: number };
+
+  exercise_shown: {
+    operands: number[];
+    operation: ExerciseOperation;
+    mode: ExerciseMode;
+    phase: ExercisePhase;
+    targetDifficulty?: number;
+  };
+  /** The exercise was first painted, lagMs after its record was created */
+  exercise_onset: { lagMs: number };
+  exercise_solved: {
+    mode: ExerciseMode;
+    inputValue: string;
+    keystrokeCount?: number;
+    timedOut?: boolean;
+    submissionMode: AnswerSubmissionMode;
+  };
+  exercise_answered_incorrectly: {
+    mode: ExerciseMode;
+    inputValue: string;
+    answer: number;
+    keystrokeCount?: number;
+    errorType: AnswerErrorType;
+  };
+  exercise_timed_out: { timedOutAt: number };
+  /** The mode of one exercise was changed */
+  exercise_mode_changed: { mode: ExerciseMode };
+  /** The user switched between self-paced and timed mode */
+  exercise_mode_toggled: { from: ExerciseMode; to: ExerciseMode };
+  /** The phase of one exercise was changed */
+  exercise_phase_changed: { phase: ExercisePhase };
+  /** The user switched between practice and serious */
+  exercise_phase_toggled: { from: ExercisePhase; to: ExercisePhase };
+  difficulty_targeted: {
+    targetDifficulty?: number;
+    predictedDifficulty: number;
+    withinTolerance: boolean;
+    attempts: number;
+    carries: number;
+    zeros: number;
+    weights: DifficultyWeights;
+    constraints?: FixedDifficultySettings;
+  };
+  staircase_updated: {
+    success: boolean;
+    efficient: boolean;
+    fastEnough: boolean;
+    referenceDurationMs: number | null;
+    result: "solved" | "timed-out" | "incorrect";
+    durationMs?: number;
+    keystrokeCount: number;
+    targetDifficulty?: number;
+    fromLevel: number;
+    toLevel: number;
+    state: StaircaseState;
+  };
+
+  input_change: { value: string; length: number };
+  input_keydown: { key: string; ctrlKey: boolean; metaKey: boolean };
+  input_focus: { value: string };
+  input_blur: { value: string };
+  document_visibility: { hidden: boolean };
+  window_focus: { focused: boolean };
+
+  timer_started: {
+    duration: number;
+    durationMs: number;
+    appliedPolicy: TimerDurationPolicy;
+    predictedDifficulty?: number;
+    referenceDurationMs?: number;
+    settings: TimerSettings;
+    recentSolveCount: number;
+  };
+  timer_paused: { elapsed: number };
+  timer_resumed: { pausedMs: number };
+  /** A correct answer in timed mode, with the time left on the timer */
+  correct_answer_during_timer: {
+    timerElapsed: number;
+    timerRemaining: number;
+    completionPolicy: TimerCompletionPolicy;
+  };
+  countdown_started: CountdownPayload;
+  countdown_completed: CountdownPayload;
+
+  evaluation_sampled: {
+    prompted: boolean;
+    promptRoll: number;
+    promptProbability: number;
+    scope: EvaluationScope | null;
+    scopeRoll: number | null;
+    requestedExerciseCount: number;
+    exerciseIds: string[];
+    collectedExerciseCount: number;
+    mode: ExerciseMode;
+  };
+  evaluation_prompted: { scope: EvaluationScope; mode: ExerciseMode };
+  evaluation_rating_selected: {
+    rating: number;
+    scope: EvaluationScope;
+    exerciseIds: string[];
+  };
+  evaluation_skipped: { scope: EvaluationScope };
+  evaluation_submitted: {
+    evaluationId: string;
+    scope: EvaluationScope;
+    rating: number;
+    exerciseIds: string[];
+    mode: ExerciseMode;
+    phase: ExercisePhase;
+  };
+  evaluation_attached: { evaluationId: string; exerciseIds: string[] };
+
+  protocol_started: { protocolName: string; definition: ExperimentProtocol };
+  /** Breaks carry their length only; exercise blocks also their settings */
+  protocol_block_started: ProtocolFields & {
+    exercises?: number;
+    minutes?: number;
+    difficulty?: ProtocolDifficulty;
+    overrides?: Pick<
+      ProtocolBlock,
+      | "operations"
+      | "operandCount"
+      | "fixedDifficulty"
+      | "evaluationSchedule"
+      | "timer"
+    >;
+  };
+  protocol_block_completed: ProtocolFields & {
+    exercisesShown: number;
+    duration?: number;
+  };
+  protocol_completed: ProtocolFields;
+  protocol_aborted: ProtocolFields;
+
+  data_imported: DataBundleImportSummary & { exportedAt: string };
+}
+
+export type EventType = keyof EventPayloads;
+
+/** An event whose payload has the shape catalogued for its type */
+export type TypedEventRecord<T extends EventType = EventType> = {
+  [K in T]: Omit<EventRecord, "type" | "payload"> & {
+    type: K;
+    payload: EventPayloads[K];
+  };
+}[T];
+
+type FieldKind = "string" | "number" | "boolean" | "object" | "array";
+
+interface FieldSpec {
+  kind: FieldKind;
+  optional?: boolean;
+  nullable?: boolean;
+  /** Allowed values of a string field */
+  values?: readonly string[];
+}
+
+type PayloadSpec<P> = { [K in keyof P]-?: FieldSpec };
+
+const string = (values?: readonly string[]): FieldSpec => ({
+  kind: "string",
+  values,
+});
+const number: FieldSpec = { kind: "number" };
+const boolean: FieldSpec = { kind: "boolean" };
+const object: FieldSpec = { kind: "object" };
+const array: FieldSpec = { kind: "array" };
+const optional = (spec: FieldSpec): FieldSpec => ({ ...spec, optional: true });
+const nullable = (spec: FieldSpec): FieldSpec => ({ ...spec, nullable: true });
+
+const MODES = ["self-paced", "timed"] satisfies ExerciseMode[];
+const PHASES = ["practice", "serious"] satisfies ExercisePhase[];
+const OPERATIONS = [
+  "addition",
+  "subtraction",
+  "multiplication",
+] satisfies ExerciseOperation[];
+const BLOCK_KINDS = [
+  "practice",
+  "self-paced",
+  "timed",
+  "break",
+] satisfies ProtocolBlockKind[];
+
+const mode = string(MODES);
+const phase = string(PHASES);
+const scope = string(EVALUATION_SCOPES);
+
+const protocolFields: PayloadSpec<ProtocolFields> = {
+  protocolName: optional(string()),
+  blockIndex: optional(number),
+  blockKind: optional(string(BLOCK_KINDS)),
+};
+
+const countdownSpec: PayloadSpec<CountdownPayload> = {
+  ...protocolFields,
+  reason: string(["protocol_block", "serious_phase"]),
+  seconds: number,
+};
+
+const inputValueSpec = { value: string() };
+
+/**
+ * Runtime description of every payload. The mapped type makes the compiler
+ * insist on a spec for each field of each catalogued payload.
+ */
+const EVENT_PAYLOAD_SPECS: { [T in EventType]: PayloadSpec<EventPayloads[T]> } =
+  {
+    user_created: { name: string() },
+    user_selected: { name: string() },
+
+    session_started: { mode, deviceInfo: object },
+    session_resumed: { lastActivityAt: number },
+    session_ended: {
+      reason: string(["hidden", "idle", "mode_changed", "user_changed"]),
+      duration: number,
+    },
+
+    exercise_shown: {
+      operands: array,
+      operation: string(OPERATIONS),
+      mode,
+      phase,
+      targetDifficulty: optional(number),
+    },
+    exercise_onset: { lagMs: number },
+    exercise_solved: {
+      mode,
+      inputValue: string(),
+      keystrokeCount: optional(number),
+      timedOut: optional(boolean),
+      submissionMode: string(["auto-advance", "enter"]),
+    },
+    exercise_answered_incorrectly: {
+      mode,
+      inputValue: string(),
+      answer: number,
+      keystrokeCount: optional(number),
+      errorType: string([
+        "off-by-carry",
+        "digit-transposition",
+        "off-by-ten",
+        "other",
+      ]),
+    },
+    exercise_timed_out: { timedOutAt: number },
+    exercise_mode_changed: { mode },
+    exercise_mode_toggled: { from: mode, to: mode },
+    exercise_phase_changed: { phase },
+    exercise_phase_toggled: { from: phase, to: phase },
+    difficulty_targeted: {
+      targetDifficulty: optional(number),
+      predictedDifficulty: number,
+      withinTolerance: boolean,
+      attempts: number,
+      carries: number,
+      zeros: number,
+      weights: object,
+      constraints: optional(object),
+    },
+    staircase_updated: {
+      success: boolean,
+      efficient: boolean,
+      fastEnough: boolean,
+      referenceDurationMs: nullable(number),
+      result: string(["solved", "timed-out", "incorrect"]),
+      durationMs: optional(number),
+      keystrokeCount: number,
+      targetDifficulty: optional(number),
+      fromLevel: number,
+      toLevel: number,
+      state: object,
+    },
+
+    input_change: { value: string(), length: number },
+    input_keydown: { key: string(), ctrlKey: boolean, metaKey: boolean },
+    input_focus: inputValueSpec,
+    input_blur: inputValueSpec,
+    document_visibility: { hidden: boolean },
+    window_focus: { focused: boolean },
+
+    timer_started: {
+      duration: number,
+      durationMs: number,
+      appliedPolicy: string(["fixed", "difficulty-scaled", "adaptive-median"]),
+      predictedDifficulty: optional(number),
+      referenceDurationMs: optional(number),
+      settings: object,
+      recentSolveCount: number,
+    },
+    timer_paused: { elapsed: number },
+    timer_resumed: { pausedMs: number },
+    correct_answer_during_timer: {
+      timerElapsed: number,
+      timerRemaining: number,
+      completionPolicy: string(["advance-on-correct", "wait-full"]),
+    },
+    countdown_started: countdownSpec,
+    countdown_completed: countdownSpec,
+
+    evaluation_sampled: {
+      prompted: boolean,
+      promptRoll: number,
+      promptProbability: number,
+      scope: nullable(scope),
+      scopeRoll: nullable(number),
+      requestedExerciseCount: number,
+      exerciseIds: array,
+      collectedExerciseCount: number,
+      mode,
+    },
+    evaluation_prompted: { scope, mode },
+    evaluation_rating_selected: { rating: number, scope, exerciseIds: array },
+    evaluation_skipped: { scope },
+    evaluation_submitted: {
+      evaluationId: string(),
+      scope,
+      rating: number,
+      exerciseIds: array,
+      mode,
+      phase,
+    },
+    evaluation_attached: { evaluationId: string(), exerciseIds: array },
+
+    protocol_started: { protocolName: string(), definition: object },
+    protocol_block_started: {
+      ...protocolFields,
+      exercises: optional(number),
+      minutes: optional(number),
+      difficulty: optional(
+        string(["random", "progressive", "adaptive", "fixed"]),
+      ),
+      overrides: optional(object),
+    },
+    protocol_block_completed: {
+      ...protocolFields,
+      exercisesShown: number,
+      duration: optional(number),
+    },
+    protocol_completed: protocolFields,
+    protocol_aborted: protocolFields,
+
+    data_imported: {
+      userId: string(),
+      userName: string(),
+      createdUser: boolean,
+      settingsImported: boolean,
+      protocols: object,
+      sessions: object,
+      exercises: object,
+      evaluations: object,
+      events: object,
+      rejectedEvents: array,
+      exportedAt: string(),
+    },
+  };
+
+export function isEventType(type: string): type is EventType {
+  return Object.prototype.hasOwnProperty.call(EVENT_PAYLOAD_SPECS, type);
+}
+
+function checkField(value: unknown, spec: FieldSpec) {
+  if (value === undefined) return spec.optional ? null : "is missing";
+  if (value === null) return spec.nullable ? null : "is null";
+
+  switch (spec.kind) {
+    case "number":
+      return typeof value === "number" && !Number.isNaN(value)
+        ? null
+        : "is not a number";
+    case "string":
+      if (typeof value !== "string") return "is not a string";
+      return !spec.values || spec.values.includes(value)
+        ? null
+        : `has unexpected value "${value}"`;
+    case "boolean":
+      return typeof value === "boolean" ? null : "is not a boolean";
+    case "array":
+      return Array.isArray(value) ? null : "is not an array";
+    case "object":
+      return typeof value === "object" && !Array.isArray(value)
+        ? null
+        : "is not an object";
+  }
+}
+
+/** Describe every way a payload deviates from its type's catalog entry */
+export function validateEventPayload(type: string, payload: unknown) {
+  if (!isEventType(type)) return [`unknown event type "${type}"`];
+  if (typeof payload !== "object" || payload === null) {
+    return ["payload is not an object"];
+  }
+
+  const spec: Record<string, FieldSpec> = EVENT_PAYLOAD_SPECS[type];
+  const fields = payload as Record<string, unknown>;
+  const problems: string[] = [];
+  Object.entries(spec).forEach(([field, fieldSpec]) => {
+    const problem = checkField(fields[field], fieldSpec);
+    if (problem) problems.push(`${field} ${problem}`);
+  });
+  Object.keys(fields).forEach((field) => {
+    if (!(field in spec)) problems.push(`${field} is not part of the schema`);
+  });
+  return problems;
+}
+
+/**
+ * Narrow an event to a catalogued type. Events stamped with the current
+ * schema version were validated when written; older ones are checked here.
+ */
+export function isEventOfType<T extends EventType>(
+  event: EventRecord,
+  type: T,
+): event is EventRecord & TypedEventRecord<T> {
+  if (event.type !== type) return false;
+  return (
+    event.schemaVersion === EVENT_SCHEMA_VERSION ||
+    validateEventPayload(type, event.payload).length === 0
+  );
+}
+
+/**
+ * Bring an event recorded before the schema in line with it. Mode toggles
+ * used to share "exercise_mode_changed" with per-exercise mode changes.
+ */
+export function upgradeLegacyEvent<
+  E extends Pick<EventRecord, "type" | "payload" | "schemaVersion">,
+>(event: E): E {
+  if (event.schemaVersion !== undefined) return event;
+  if (event.type === "exercise_mode_changed" && "from" in event.payload) {
+    return { ...event, type: "exercise_mode_toggled" };
+  }
+  return event;
+}
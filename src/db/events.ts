@@ -0,0 +1,102 @@
+import { db, type EventRecord, type ExerciseRecord } from "@/db";
+import {
+  isEventOfType,
+  type EventType,
+  type TypedEventRecord,
+} from "@/db/eventSchema";
+import { flushEvents } from "@/db/eventQueue";
+
+export interface ReplaySource {
+  events: EventRecord[];
+  exercises: ExerciseRecord[];
+}
+
+function byTimestamp(a: EventRecord, b: EventRecord) {
+  return a.timestamp - b.timestamp || (a.sequence ?? 0) - (b.sequence ?? 0);
+}
+
+/**
+ * Events of a single exercise, plus the window-level events (visibility and
+ * window focus) that happened while it was on screen
+ */
+export async function getExerciseReplaySource(
+  exerciseId: string,
+): Promise<ReplaySource | null> {
+  await flushEvents();
+  const exercise = await db.exercises.get(exerciseId);
+  if (!exercise) return null;
+
+  const exerciseEvents = await db.events
+    .where("exerciseId")
+    .equals(exerciseId)
+    .toArray();
+  if (exerciseEvents.length === 0) {
+    return { events: [], exercises: [exercise] };
+  }
+
+  const timestamps = exerciseEvents.map((event) => event.timestamp);
+  const start = Math.min(exercise.displayedAt, ...timestamps);
+  const end = Math.max(...timestamps);
+
+  const windowEvents = await db.events
+    .where("timestamp")
+    .between(start, end, true, true)
+    .filter(
+      (event) =>
+        event.userId === exercise.userId && event.exerciseId === undefined,
+    )
+    .toArray();
+
+  return {
+    events: [...exerciseEvents, ...windowEvents].sort(byTimestamp),
+    exercises: [exercise],
+  };
+}
+
+export async function getSessionReplaySource(
+  sessionId: string,
+): Promise<ReplaySource> {
+  await flushEvents();
+  const [events, exercises] = await Promise.all([
+    db.events.where("sessionId").equals(sessionId).toArray(),
+    db.exercises.where("sessionId").equals(sessionId).toArray(),
+  ]);
+
+  return {
+    events: events.sort(byTimestamp),
+    exercises: exercises.sort((a, b) => a.displayedAt - b.displayedAt),
+  };
+}
+
+export interface EventQuery {
+  userId?: string;
+  exerciseId?: string;
+  sessionId?: string;
+}
+
+/**
+ * Events of one catalogued type in chronological order, typed by their
+ * payload. Legacy events whose payload doesn't match the catalog are left out.
+ */
+export async function listEventsOfType<T extends EventType>(
+  type: T,
+  { userId, exerciseId, sessionId }: EventQuery = {},
+): Promise<TypedEventRecord<T>[]> {
+  await flushEvents();
+  const events = await db.events
+    .where("type")
+    .equals(type)
+    .filter(
+      (event) =>
+        (userId === undefined || event.userId === userId) &&
+        (exerciseId === undefined || event.exerciseId === exerciseId) &&
+        (sessionId === undefined || event.sessionId === sessionId),
+    )
+    .toArray();
+
+  return events
+    .sort(byTimestamp)
+    .filter((event): event is EventRecord & TypedEventRecord<T> =>
+      isEventOfType(event, type),
+    );
+}
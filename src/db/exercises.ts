@@ -1,37 +1,91 @@
-import { db, logEvent, type ExerciseMode } from "@/db";
+import Dexie from "dexie";
+import {
+  db,
+  getCurrentProtocolContext,
+  getCurrentSessionId,
+  logEvent,
+  type AnswerSubmissionMode,
+  type ExerciseMode,
+  type ExerciseOperation,
+  type ExercisePhase,
+} from "@/db";
+import { getOperation } from "@/utils/operations";
+import { classifyAnswerError } from "@/utils/answerErrors";
+import {
+  computeKeystrokeMetrics,
+  hasCurrentKeystrokeMetrics,
+} from "@/utils/keystrokeMetrics";
+import {
+  ATTENTION_EVENT_TYPES,
+  computeOffTaskMetrics,
+  hasCurrentOffTaskMetrics,
+} from "@/utils/offTask";
+import { refreshDailyStatsForExercise } from "@/db/dailyStats";
+import { flushEvents } from "@/db/eventQueue";
+import { getSolveTimeMs, preciseNow } from "@/utils/timing";
+import { toTimestampRange, type DateRange } from "@/utils/dateRange";
+
+// Derived metrics read the exercise's events back, so they wait for the
+// queued events to be written. Answering doesn't wait for them.
+let derivation: Promise<void> = Promise.resolve();
+
+function deriveExerciseData(exerciseId: string) {
+  derivation = derivation
+    .then(async () => {
+      await flushEvents();
+      await cacheKeystrokeMetrics(exerciseId);
+      await cacheOffTaskMetrics(exerciseId);
+      await refreshDailyStatsForExercise(exerciseId);
+    })
+    .catch((error) => console.error("Deriving exercise data failed:", error));
+}
 
 export interface CreateExerciseInput {
-  userId: number;
-  operandA: number;
-  operandB: number;
+  userId: string;
+  operands: number[];
+  operation: ExerciseOperation;
   mode: ExerciseMode;
+  phase: ExercisePhase;
+  sessionId?: string;
+  targetDifficulty?: number;
 }
 
 export async function createExerciseRecord({
   userId,
-  operandA,
-  operandB,
+  operands,
+  operation,
   mode,
+  phase,
+  sessionId = getCurrentSessionId(),
+  targetDifficulty,
 }: CreateExerciseInput) {
   const displayedAt = Date.now();
-  const answer = operandA + operandB;
+  const answer = getOperation(operation).computeAnswer(operands);
+  const protocol = getCurrentProtocolContext();
   const exerciseId = await db.exercises.add({
     userId,
-    operandA,
-    operandB,
+    operands,
+    operation,
     answer,
     displayedAt,
     mode,
+    phase,
+    sessionId,
+    targetDifficulty,
+    protocolId: protocol?.protocolId,
+    protocolBlockId: protocol?.protocolBlockId,
   });
 
-  await logEvent({
+  logEvent({
     userId,
     type: "exercise_shown",
     exerciseId,
     payload: {
-      operandA,
-      operandB,
+      operands,
+      operation,
       mode,
+      phase,
+      targetDifficulty,
     },
     timestamp: displayedAt,
   });
@@ -39,29 +93,72 @@ export async function createExerciseRecord({
   return db.exercises.get(exerciseId);
 }
 
+/**
+ * Store when the exercise was first painted and log how long that took after
+ * its record was created
+ */
+export async function recordExerciseOnset(
+  exerciseId: string,
+  userId: string,
+  onsetPreciseAt: number,
+) {
+  const exercise = await db.exercises.get(exerciseId);
+  if (!exercise) return;
+
+  // Wall-clock time of the same instant
+  const onsetAt = Math.round(Date.now() - (preciseNow() - onsetPreciseAt));
+  await db.exercises.update(exerciseId, { onsetAt, onsetPreciseAt });
+  logEvent({
+    userId,
+    type: "exercise_onset",
+    exerciseId,
+    payload: { lagMs: onsetAt - exercise.displayedAt },
+    timestamp: onsetAt,
+    preciseTimestamp: onsetPreciseAt,
+  });
+}
+
 export async function markExerciseSolved(
-  exerciseId: number,
+  exerciseId: string,
   {
     userId,
     inputValue,
     mode,
     keystrokeCount,
     timedOut,
+    submissionMode = "auto-advance",
+    answeredPreciseAt = preciseNow(),
   }: {
-    userId: number;
+    userId: string;
     inputValue: string;
     mode: ExerciseMode;
     keystrokeCount?: number;
     timedOut?: boolean;
+    submissionMode?: AnswerSubmissionMode;
+    /** Precise time of the input event that completed the answer */
+    answeredPreciseAt?: number;
   },
 ) {
   const solvedAt = Date.now();
+  // Only a submitted answer is an explicit correctness judgement
+  const submission =
+    submissionMode === "enter"
+      ? {
+          submittedAnswer: Number(inputValue),
+          submittedAt: solvedAt,
+          submittedPreciseAt: answeredPreciseAt,
+          isCorrect: true,
+        }
+      : {};
   await db.exercises.update(exerciseId, {
     solvedAt,
+    solvedPreciseAt: answeredPreciseAt,
     keystrokeCount,
     timedOut,
+    submissionMode,
+    ...submission,
   });
-  await logEvent({
+  logEvent({
     userId,
     type: "exercise_solved",
     exerciseId,
@@ -70,20 +167,69 @@ export async function markExerciseSolved(
       inputValue,
       keystrokeCount,
       timedOut,
+      submissionMode,
     },
     timestamp: solvedAt,
+    preciseTimestamp: answeredPreciseAt,
   });
+  deriveExerciseData(exerciseId);
 }
 
-export async function markExerciseTimedOut(
-  exerciseId: number,
-  userId: number,
+export async function markExerciseIncorrect(
+  exerciseId: string,
+  {
+    userId,
+    inputValue,
+    mode,
+    keystrokeCount,
+    answeredPreciseAt = preciseNow(),
+  }: {
+    userId: string;
+    inputValue: string;
+    mode: ExerciseMode;
+    keystrokeCount?: number;
+    answeredPreciseAt?: number;
+  },
 ) {
+  const exercise = await db.exercises.get(exerciseId);
+  if (!exercise) return undefined;
+
+  const submittedAt = Date.now();
+  const submittedAnswer = Number(inputValue);
+  const errorType = classifyAnswerError(exercise, submittedAnswer);
+  await db.exercises.update(exerciseId, {
+    keystrokeCount,
+    submissionMode: "enter",
+    submittedAnswer,
+    submittedAt,
+    submittedPreciseAt: answeredPreciseAt,
+    isCorrect: false,
+    errorType,
+  });
+  logEvent({
+    userId,
+    type: "exercise_answered_incorrectly",
+    exerciseId,
+    payload: {
+      mode,
+      inputValue,
+      answer: exercise.answer,
+      keystrokeCount,
+      errorType,
+    },
+    timestamp: submittedAt,
+    preciseTimestamp: answeredPreciseAt,
+  });
+  deriveExerciseData(exerciseId);
+  return errorType;
+}
+
+export async function markExerciseTimedOut(exerciseId: string, userId: string) {
   const timedOutAt = Date.now();
   await db.exercises.update(exerciseId, {
     timedOut: true,
   });
-  await logEvent({
+  logEvent({
     userId,
     type: "exercise_timed_out",
     exerciseId,
@@ -92,28 +238,49 @@ export async function markExerciseTimedOut(
     },
     timestamp: timedOutAt,
   });
+  deriveExerciseData(exerciseId);
 }
 
 export async function updateExerciseMode(
-  exerciseId: number,
+  exerciseId: string,
   mode: ExerciseMode,
-  userId: number,
+  userId: string,
 ) {
   const updatedAt = Date.now();
   await db.exercises.update(exerciseId, { mode });
-  await logEvent({
+  logEvent({
     userId,
     type: "exercise_mode_changed",
     exerciseId,
     payload: { mode },
     timestamp: updatedAt,
   });
+  await refreshDailyStatsForExercise(exerciseId);
+}
+
+/**
+ * Re-label an exercise's phase, e.g. the practice exercise interrupted by the
+ * switch to serious mode
+ */
+export async function updateExercisePhase(
+  exerciseId: string,
+  phase: ExercisePhase,
+  userId: string,
+) {
+  await db.exercises.update(exerciseId, { phase });
+  logEvent({
+    userId,
+    type: "exercise_phase_changed",
+    exerciseId,
+    payload: { phase },
+  });
+  await refreshDailyStatsForExercise(exerciseId);
 }
 
 export async function attachEvaluation(
-  exerciseIds: number[],
-  evaluationId: number,
-  userId: number,
+  exerciseIds: string[],
+  evaluationId: string,
+  userId: string,
 ) {
   const updatedAt = Date.now();
   await Promise.all(
@@ -123,10 +290,143 @@ export async function attachEvaluation(
       }),
     ),
   );
-  await logEvent({
+  logEvent({
     userId,
     type: "evaluation_attached",
     payload: { evaluationId, exerciseIds },
     timestamp: updatedAt,
   });
 }
+
+export async function getRecentSolveDurations(
+  userId: string,
+  limit: number,
+  excludeExerciseId?: string,
+) {
+  const recent = await db.exercises
+    .where("[userId+displayedAt]")
+    .between([userId, Dexie.minKey], [userId, Dexie.maxKey])
+    .reverse()
+    .filter(
+      (exercise) =>
+        exercise.id !== excludeExerciseId &&
+        exercise.solvedAt !== undefined &&
+        !exercise.timedOut,
+    )
+    .limit(limit)
+    .toArray();
+
+  return recent.map((exercise) => getSolveTimeMs(exercise)!);
+}
+
+export async function cacheKeystrokeMetrics(exerciseId: string) {
+  const exercise = await db.exercises.get(exerciseId);
+  if (!exercise) return undefined;
+
+  const events = await db.events
+    .where("exerciseId")
+    .equals(exerciseId)
+    .toArray();
+  events.sort(
+    (a, b) =>
+      a.timestamp - b.timestamp || (a.sequence ?? 0) - (b.sequence ?? 0),
+  );
+
+  const keystrokeMetrics = computeKeystrokeMetrics(exercise, events);
+  await db.exercises.update(exerciseId, { keystrokeMetrics });
+  return keystrokeMetrics;
+}
+
+// Exercises shown within a date range; open ends cover the whole history
+function exercisesInRange(userId: string, range?: DateRange) {
+  const [from, to] = toTimestampRange(range ?? { from: "", to: "" });
+  return db.exercises
+    .where("[userId+displayedAt]")
+    .between([userId, from], [userId, to], true, true);
+}
+
+/**
+ * Compute keystroke metrics for finished exercises recorded before they were
+ * cached, or cached by an older version of the derivation
+ */
+export async function backfillKeystrokeMetrics(
+  userId: string,
+  range?: DateRange,
+) {
+  const stale = await exercisesInRange(userId, range)
+    .filter(
+      (exercise) =>
+        (exercise.solvedAt !== undefined || !!exercise.timedOut) &&
+        !hasCurrentKeystrokeMetrics(exercise),
+    )
+    .primaryKeys();
+
+  await flushEvents();
+  // One transaction so live queries re-run once rather than per exercise
+  await db.transaction("rw", db.exercises, db.events, async () => {
+    for (const exerciseId of stale) {
+      await cacheKeystrokeMetrics(exerciseId);
+    }
+  });
+  return stale.length;
+}
+
+export async function cacheOffTaskMetrics(exerciseId: string) {
+  const exercise = await db.exercises.get(exerciseId);
+  if (!exercise) return undefined;
+
+  let endedAt = exercise.solvedAt ?? exercise.submittedAt;
+  if (endedAt === undefined && exercise.timedOut) {
+    const timedOut = await db.events
+      .where("exerciseId")
+      .equals(exerciseId)
+      .filter((event) => event.type === "exercise_timed_out")
+      .first();
+    endedAt = timedOut?.timestamp;
+  }
+  if (endedAt === undefined) return undefined;
+
+  // Visibility and window focus events recorded before they were tagged with
+  // the exercise are matched by time
+  const events = await db.events
+    .where("timestamp")
+    .between(exercise.displayedAt, endedAt, true, true)
+    .filter(
+      (event) =>
+        event.userId === exercise.userId &&
+        ATTENTION_EVENT_TYPES.includes(event.type),
+    )
+    .toArray();
+  events.sort(
+    (a, b) =>
+      a.timestamp - b.timestamp || (a.sequence ?? 0) - (b.sequence ?? 0),
+  );
+
+  const offTask = computeOffTaskMetrics(endedAt, events);
+  await db.exercises.update(exerciseId, { offTask });
+  return offTask;
+}
+
+/** Compute off-task time for finished exercises recorded before it was cached */
+export async function backfillOffTaskMetrics(
+  userId: string,
+  range?: DateRange,
+) {
+  const stale = await exercisesInRange(userId, range)
+    .filter(
+      (exercise) =>
+        (exercise.solvedAt !== undefined ||
+          exercise.submittedAt !== undefined ||
+          !!exercise.timedOut) &&
+        !hasCurrentOffTaskMetrics(exercise),
+    )
+    .primaryKeys();
+
+  await flushEvents();
+  await db.transaction("rw", db.exercises, db.events, async () => {
+    for (const exerciseId of stale) {
+      await cacheOffTaskMetrics(exerciseId);
+    }
+  });
+  return stale.length;
+}
@@ -1,35 +1,158 @@
 import Dexie, { type Table } from "dexie";
+import type { StaircaseState } from "@/types/staircase";
+import type { FixedDifficultySettings } from "@/types/difficulty";
+import type { TimerSettings } from "@/types/timer";
+import type { ExperimentProtocol } from "@/types/protocol";
+import {
+  EVENT_SCHEMA_VERSION,
+  upgradeLegacyEvent,
+  validateEventPayload,
+  type EventPayloads,
+  type EventType,
+} from "@/db/eventSchema";
+import { enqueueEvent, rejectEvent } from "@/db/eventQueue";
+import { moveToUidKeys, trackLocalChanges } from "@/db/syncIds";
+import { preciseNow } from "@/utils/timing";
 
 export type ExerciseMode = "self-paced" | "timed";
 
-export interface UserRecord {
-  id?: number;
+/**
+ * Practice data is recorded but left out of analyses by default. Orthogonal
+ * to ExerciseMode; records without a phase predate it and count as serious.
+ */
+export type ExercisePhase = "practice" | "serious";
+
+export type ExerciseOperation = "addition" | "subtraction" | "multiplication";
+
+/** How an answer ends an exercise: as soon as it matches, or on Enter */
+export type AnswerSubmissionMode = "auto-advance" | "enter";
+
+export type AnswerErrorType =
+  | "off-by-carry"
+  | "digit-transposition"
+  | "off-by-ten"
+  | "other";
+
+/** Tables shared between devices, in the order their references point */
+export const SYNCED_TABLES = [
+  "users",
+  "protocols",
+  "userSettings",
+  "sessions",
+  "exercises",
+  "evaluations",
+  "events",
+] as const;
+
+export type SyncTable = (typeof SYNCED_TABLES)[number];
+
+/**
+ * Kept on every synced record. Their IDs are random strings that name the
+ * record on every device, so references hold the same ID everywhere.
+ */
+export interface SyncMetadata {
+  /** When the record last changed on any device */
+  syncModifiedAt?: number;
+  /** When it last changed on this device; 0 when written by a sync pull */
+  localChangeAt?: number;
+}
+
+export interface UserRecord extends SyncMetadata {
+  id?: string;
   name: string;
   createdAt: number;
   lastActiveAt: number;
 }
 
-export interface ExerciseRecord {
-  id?: number;
-  userId: number;
-  operandA: number;
-  operandB: number;
+/**
+ * Keystroke dynamics derived from the exercise's input events, cached on the
+ * exercise so charts and exports don't have to replay the event log
+ */
+export interface KeystrokeMetrics {
+  /** Bumped when the derivation changes so stale caches get recomputed */
+  version: number;
+  timeToFirstKeyMs: number | null;
+  interKeyIntervalCount: number;
+  interKeyMeanMs: number | null;
+  interKeyMedianMs: number | null;
+  interKeySdMs: number | null;
+  interKeyMaxMs: number | null;
+  backspaceCount: number;
+  /** Intermediate values that could not lead to the answer */
+  wrongPrefixCount: number;
+  /** null when no digits were entered */
+  enteredLeftToRight: boolean | null;
+}
+
+/**
+ * Time spent away from the exercise (page hidden, window or input unfocused)
+ * between it being shown and answered
+ */
+export interface OffTaskMetrics {
+  version: number;
+  offTaskMs: number;
+  interruptionCount: number;
+}
+
+export interface ExerciseRecord extends SyncMetadata {
+  id?: string;
+  userId: string;
+  operands: number[];
+  operation: ExerciseOperation;
   answer: number;
+  /** When the record was created, just before the exercise is rendered */
   displayedAt: number;
   solvedAt?: number;
+  /** Wall-clock time of the frame that first painted the exercise */
+  onsetAt?: number;
+  /**
+   * Onset and answer times on the precise clock (see utils/timing.ts); solve
+   * times are measured between these when present
+   */
+  onsetPreciseAt?: number;
+  solvedPreciseAt?: number;
+  submittedPreciseAt?: number;
   mode: ExerciseMode;
-  evaluationId?: number;
+  phase?: ExercisePhase;
+  evaluationId?: string;
   keystrokeCount?: number;
   timedOut?: boolean;
+  sessionId?: string;
+  targetDifficulty?: number;
+  keystrokeMetrics?: KeystrokeMetrics;
+  offTask?: OffTaskMetrics;
+  submissionMode?: AnswerSubmissionMode;
+  /** Only set for answers submitted with Enter */
+  submittedAnswer?: number;
+  submittedAt?: number;
+  isCorrect?: boolean;
+  errorType?: AnswerErrorType;
+  protocolId?: string;
+  protocolBlockId?: string;
 }
 
-export interface EventRecord {
-  id?: number;
-  userId: number;
-  exerciseId?: number;
+export interface EventRecord extends SyncMetadata {
+  id?: string;
+  userId: string;
+  exerciseId?: string;
+  sessionId?: string;
+  protocolId?: string;
+  protocolBlockId?: string;
   type: string;
   payload: Record<string, unknown>;
   timestamp: number;
+  /**
+   * Write order on the device that logged the event, which sorts events of
+   * the same millisecond; migrated events carry their old numeric ID
+   */
+  sequence?: number;
+  /** EVENT_SCHEMA_VERSION at write time; absent on events logged before it */
+  schemaVersion?: number;
+  /**
+   * When the event happened on the precise clock (see utils/timing.ts):
+   * sub-millisecond and monotonic within a page load, on the wall-clock scale
+   */
+  preciseTimestamp?: number;
 }
 
 export type EvaluationScope =
@@ -39,36 +162,151 @@ export type EvaluationScope =
   | "the last five exercises"
   | "the last 10 exercises";
 
-export interface EvaluationRecord {
-  id?: number;
-  userId: number;
+export interface EvaluationRecord extends SyncMetadata {
+  id?: string;
+  userId: string;
   scope: EvaluationScope;
   rating: number;
-  exerciseIds: number[];
+  exerciseIds: string[];
   mode: ExerciseMode;
+  phase?: ExercisePhase;
   createdAt: number;
+  sessionId?: string;
 }
 
-export interface UserSettingsRecord {
+export type SessionEndReason =
+  | "hidden"
+  | "idle"
+  | "mode_changed"
+  | "user_changed";
+
+export interface SessionDeviceInfo {
+  userAgent: string;
+  language: string;
+  platform: string;
+  timezone: string;
+  screenWidth: number;
+  screenHeight: number;
+  devicePixelRatio: number;
+  touch: boolean;
+}
+
+export interface SessionRecord extends SyncMetadata {
+  id?: string;
+  userId: string;
+  startedAt: number;
+  lastActivityAt: number;
+  endedAt?: number;
+  endReason?: SessionEndReason;
+  mode: ExerciseMode;
+  settingsSnapshot: Omit<
+    UserSettingsRecord,
+    "id" | "userId" | "fieldModifiedAt" | keyof SyncMetadata
+  > | null;
+  deviceInfo: SessionDeviceInfo;
+}
+
+export interface ProtocolRecord extends SyncMetadata {
+  id?: string;
+  name: string;
+  definition: ExperimentProtocol;
+  createdAt: number;
+  updatedAt: number;
+}
+
+/**
+ * Running totals for one user, local calendar day, mode and phase, kept up to
+ * date as exercises finish and ratings come in so the whole history can be
+ * summarised without loading it
+ */
+export interface DailyStatsRecord {
   id?: number;
-  userId: number;
+  userId: string;
+  /** Local date as YYYY-MM-DD */
+  day: string;
+  mode: ExerciseMode;
+  phase: ExercisePhase;
+  shown: number;
+  solved: number;
+  timedOut: number;
+  incorrect: number;
+  /** Solve times within the 0.5–120 s window used by the analyses */
+  solveTimeCount: number;
+  solveTimeSumMs: number;
+  solveTimeSumSquaresMs: number;
+  ratingCount: number;
+  ratingSum: number;
+  updatedAt: number;
+}
+
+export interface UserSettingsRecord extends SyncMetadata {
+  id?: string;
+  userId: string;
   graduallyIncreaseDifficulty: boolean;
   progressiveDifficultyActivatedAt?: number;
   exerciseMode?: ExerciseMode;
+  exercisePhase?: ExercisePhase;
   updatedAt: number;
   difficultyWeights?: {
     digits: number;
     carryovers: number;
     zeros: number;
   };
+  evaluationSchedule?: {
+    promptProbability: number;
+    scopeWeights: Partial<Record<EvaluationScope, number>>;
+  };
+  activeOperations?: ExerciseOperation[];
+  operandCount?: number;
+  adaptiveDifficulty?: boolean;
+  staircase?: StaircaseState;
+  fixedDifficulty?: FixedDifficultySettings;
+  timer?: TimerSettings;
+  answerSubmission?: AnswerSubmissionMode;
+  /** When each setting last changed, so sync can merge settings per field */
+  fieldModifiedAt?: Record<string, number>;
+}
+
+/**
+ * Another uid for a local record, left behind when sync merged two copies of
+ * the same user or settings that were created on different devices
+ */
+export interface SyncAliasRecord {
+  uid: string;
+  table: SyncTable;
+  targetUid: string;
+}
+
+/**
+ * New ID of a record from before IDs were strings, for numeric IDs kept
+ * outside the database such as the active user or links to a replay
+ */
+export interface LegacyIdRecord {
+  table: SyncTable;
+  legacyId: number;
+  id: string;
+}
+
+/** Deleted synced record, remembered so the deletion reaches other devices */
+export interface SyncTombstoneRecord {
+  uid: string;
+  table: SyncTable;
+  deletedAt: number;
+  localChangeAt: number;
 }
 
 class AppDatabase extends Dexie {
-  users!: Table<UserRecord, number>;
-  exercises!: Table<ExerciseRecord, number>;
-  events!: Table<EventRecord, number>;
-  evaluations!: Table<EvaluationRecord, number>;
-  userSettings!: Table<UserSettingsRecord, number>;
+  users!: Table<UserRecord, string>;
+  exercises!: Table<ExerciseRecord, string>;
+  events!: Table<EventRecord, string>;
+  evaluations!: Table<EvaluationRecord, string>;
+  userSettings!: Table<UserSettingsRecord, string>;
+  sessions!: Table<SessionRecord, string>;
+  protocols!: Table<ProtocolRecord, string>;
+  dailyStats!: Table<DailyStatsRecord, number>;
+  syncAliases!: Table<SyncAliasRecord, string>;
+  syncTombstones!: Table<SyncTombstoneRecord, string>;
+  legacyIds!: Table<LegacyIdRecord, [string, number]>;
 
   constructor() {
     super("mentalAdditionFlow");
@@ -106,31 +344,210 @@ class AppDatabase extends Dexie {
         }
       });
     });
+    this.version(5).stores({
+      users: "++id,&name,lastActiveAt",
+      exercises:
+        "++id,userId,mode,displayedAt,solvedAt,sessionId,[userId+displayedAt]",
+      events: "++id,userId,exerciseId,sessionId,type,timestamp",
+      evaluations: "++id,userId,createdAt,scope,mode,sessionId",
+      userSettings: "++id,&userId,updatedAt",
+      sessions: "++id,userId,startedAt,endedAt,[userId+startedAt]",
+    });
+    this.version(6)
+      .stores({
+        users: "++id,&name,lastActiveAt",
+        exercises:
+          "++id,userId,mode,operation,displayedAt,solvedAt,sessionId,[userId+displayedAt]",
+        events: "++id,userId,exerciseId,sessionId,type,timestamp",
+        evaluations: "++id,userId,createdAt,scope,mode,sessionId",
+        userSettings: "++id,&userId,updatedAt",
+        sessions: "++id,userId,startedAt,endedAt,[userId+startedAt]",
+      })
+      .upgrade(async (trans) => {
+        // Every exercise recorded before operations existed was an addition
+        await trans
+          .table<ExerciseRecord>("exercises")
+          .toCollection()
+          .modify((exercise) => {
+            exercise.operation ??= "addition";
+          });
+      });
+    this.version(7)
+      .stores({
+        users: "++id,&name,lastActiveAt",
+        exercises:
+          "++id,userId,mode,operation,displayedAt,solvedAt,sessionId,[userId+displayedAt]",
+        events: "++id,userId,exerciseId,sessionId,type,timestamp",
+        evaluations: "++id,userId,createdAt,scope,mode,sessionId",
+        userSettings: "++id,&userId,updatedAt",
+        sessions: "++id,userId,startedAt,endedAt,[userId+startedAt]",
+      })
+      .upgrade(async (trans) => {
+        // Two-operand rows move into the operand array used for chains
+        await trans
+          .table<ExerciseRecord & { operandA?: number; operandB?: number }>(
+            "exercises",
+          )
+          .toCollection()
+          .modify((exercise) => {
+            if (!exercise.operands) {
+              exercise.operands = [
+                exercise.operandA ?? 0,
+                exercise.operandB ?? 0,
+              ];
+            }
+            delete exercise.operandA;
+            delete exercise.operandB;
+          });
+      });
+    this.version(8).stores({
+      users: "++id,&name,lastActiveAt",
+      exercises:
+        "++id,userId,mode,operation,displayedAt,solvedAt,sessionId,protocolId,[userId+displayedAt]",
+      events: "++id,userId,exerciseId,sessionId,protocolId,type,timestamp",
+      evaluations: "++id,userId,createdAt,scope,mode,sessionId",
+      userSettings: "++id,&userId,updatedAt",
+      sessions: "++id,userId,startedAt,endedAt,[userId+startedAt]",
+      protocols: "++id,name,updatedAt",
+    });
+    this.version(9).stores({
+      users: "++id,&name,lastActiveAt",
+      exercises:
+        "++id,userId,mode,operation,displayedAt,solvedAt,sessionId,protocolId,[userId+displayedAt]",
+      events: "++id,userId,exerciseId,sessionId,protocolId,type,timestamp",
+      evaluations:
+        "++id,userId,createdAt,scope,mode,sessionId,[userId+createdAt]",
+      userSettings: "++id,&userId,updatedAt",
+      sessions: "++id,userId,startedAt,endedAt,[userId+startedAt]",
+      protocols: "++id,name,updatedAt",
+      dailyStats: "++id,userId,[userId+day]",
+    });
+    this.version(10)
+      .stores({
+        users: "++id,&name,lastActiveAt",
+        exercises:
+          "++id,userId,mode,operation,displayedAt,solvedAt,sessionId,protocolId,[userId+displayedAt]",
+        events: "++id,userId,exerciseId,sessionId,protocolId,type,timestamp",
+        evaluations:
+          "++id,userId,createdAt,scope,mode,sessionId,[userId+createdAt]",
+        userSettings: "++id,&userId,updatedAt",
+        sessions: "++id,userId,startedAt,endedAt,[userId+startedAt]",
+        protocols: "++id,name,updatedAt",
+        dailyStats: "++id,userId,[userId+day]",
+      })
+      .upgrade(async (trans) => {
+        // Mode toggles get a type of their own in the event catalog
+        await trans
+          .table<EventRecord>("events")
+          .where("type")
+          .equals("exercise_mode_changed")
+          .modify((event) => {
+            event.type = upgradeLegacyEvent(event).type;
+          });
+      });
+    // Synced records are keyed by random string IDs from here on. IndexedDB
+    // can't change the primary key of a table, so the auto-increment key path
+    // stays; the creating hook always supplies the key.
+    this.version(11)
+      .stores({
+        users: "++id,&name,lastActiveAt,localChangeAt",
+        exercises:
+          "++id,userId,mode,operation,displayedAt,solvedAt,sessionId,protocolId,[userId+displayedAt],localChangeAt",
+        events:
+          "++id,userId,exerciseId,sessionId,protocolId,type,timestamp,localChangeAt",
+        evaluations:
+          "++id,userId,createdAt,scope,mode,sessionId,[userId+createdAt],localChangeAt",
+        userSettings: "++id,&userId,updatedAt,localChangeAt",
+        sessions:
+          "++id,userId,startedAt,endedAt,[userId+startedAt],localChangeAt",
+        protocols: "++id,name,updatedAt,localChangeAt",
+        dailyStats: "++id,userId,[userId+day]",
+        syncAliases: "&uid",
+        syncTombstones: "&uid,localChangeAt",
+        legacyIds: "[table+legacyId]",
+      })
+      .upgrade(moveToUidKeys);
   }
 }
 
 export const db = new AppDatabase();
+trackLocalChanges(db);
 
-export interface LogEventInput {
-  userId: number;
-  type: string;
-  exerciseId?: number;
-  payload?: Record<string, unknown>;
-  timestamp?: number;
+// Session that new exercises, evaluations and events are attributed to
+let currentSessionId: string | undefined;
+
+export function getCurrentSessionId() {
+  return currentSessionId;
+}
+
+export function setCurrentSessionId(sessionId: string | undefined) {
+  currentSessionId = sessionId;
+}
+
+export interface ProtocolContext {
+  protocolId: string;
+  protocolBlockId: string;
+}
+
+// Protocol block that new exercises and events are tagged with while it runs
+let currentProtocolContext: ProtocolContext | undefined;
+
+export function getCurrentProtocolContext() {
+  return currentProtocolContext;
+}
+
+export function setCurrentProtocolContext(
+  context: ProtocolContext | undefined,
+) {
+  currentProtocolContext = context;
 }
 
-export async function logEvent({
+export type LogEventInput<T extends EventType = EventType> = {
+  [K in T]: {
+    userId: string;
+    type: K;
+    exerciseId?: string;
+    sessionId?: string;
+    protocol?: ProtocolContext;
+    payload: EventPayloads[K];
+    timestamp?: number;
+    /** Defaults to the time of the call, e.g. Event.timeStamp is more exact */
+    preciseTimestamp?: number;
+  };
+}[T];
+
+/**
+ * Queue an event for writing after checking its payload against the event
+ * catalog in eventSchema.ts. A payload that doesn't match is a bug; it is not
+ * stored but counted in the event writer stats shown in Settings. Events are
+ * written in batches, so call flushEvents before reading them back.
+ */
+export function logEvent({
   userId,
   type,
   exerciseId,
-  payload = {},
+  sessionId = currentSessionId,
+  protocol = currentProtocolContext,
+  payload,
   timestamp = Date.now(),
+  preciseTimestamp = preciseNow(),
 }: LogEventInput) {
-  await db.events.add({
+  const problems = validateEventPayload(type, payload);
+  if (problems.length > 0) {
+    rejectEvent(`Invalid "${type}" event: ${problems.join(", ")}.`);
+    return;
+  }
+
+  enqueueEvent({
     userId,
     type,
     exerciseId,
-    payload,
+    sessionId,
+    protocolId: protocol?.protocolId,
+    protocolBlockId: protocol?.protocolBlockId,
+    payload: payload as Record<string, unknown>,
     timestamp,
+    preciseTimestamp,
+    schemaVersion: EVENT_SCHEMA_VERSION,
   });
 }
@@ -0,0 +1,166 @@
+import Dexie, { type Table } from "dexie";
+import {
+  resolveSyncConflict,
+  type SyncAdapter,
+  type SyncDocument,
+  type SyncPullResult,
+} from "@/db/syncAdapter";
+
+export interface MockSyncServerOptions {
+  /** Delay of every request, as a network round trip would add */
+  latencyMs?: number;
+  /** Share of requests that fail, to try out error handling */
+  failureRate?: number;
+  /** IndexedDB database the server keeps its documents in */
+  databaseName?: string;
+}
+
+export interface MockSyncServer extends SyncAdapter {
+  /** Simulate losing the connection; requests fail until back online */
+  setOnline(online: boolean): void;
+  /** Forget all documents, as a fresh server would */
+  reset(): Promise<void>;
+  countDocuments(): Promise<number>;
+}
+
+interface StoredDocument {
+  table: string;
+  uid: string;
+  revision: number;
+  document: SyncDocument;
+}
+
+interface ServerState {
+  key: "server";
+  serverId: string;
+  revision: number;
+}
+
+class MockSyncServerDatabase extends Dexie {
+  documents!: Table<StoredDocument, [string, string]>;
+  state!: Table<ServerState, string>;
+
+  constructor(name: string) {
+    super(name);
+    this.version(1).stores({
+      documents: "[table+uid],revision",
+      state: "key",
+    });
+  }
+}
+
+/**
+ * A sync server kept in its own IndexedDB database, for trying out and
+ * testing sync without a backend. It follows the same contract a real server
+ * has to, including conflict resolution, and keeps its documents across page
+ * loads so syncing picks up where it left off.
+ */
+export function createMockSyncServer({
+  latencyMs = 150,
+  failureRate = 0,
+  databaseName = "mentalAdditionFlowMockSync",
+}: MockSyncServerOptions = {}): MockSyncServer {
+  const database = new MockSyncServerDatabase(databaseName);
+  let online = true;
+
+  async function request<T>(handle: () => Promise<T>): Promise<T> {
+    await new Promise((resolve) => setTimeout(resolve, latencyMs));
+    if (!online) throw new Error("The sync server is unreachable.");
+    if (Math.random() < failureRate) {
+      throw new Error("The sync server failed to handle the request.");
+    }
+    return handle();
+  }
+
+  async function loadState() {
+    const state = await database.state.get("server");
+    if (state) return state;
+    const created: ServerState = {
+      key: "server",
+      serverId: crypto.randomUUID(),
+      revision: 0,
+    };
+    await database.state.put(created);
+    return created;
+  }
+
+  return {
+    name: "mock",
+
+    pull(since, limit) {
+      return request(() =>
+        database.transaction(
+          "rw",
+          database.documents,
+          database.state,
+          async (): Promise<SyncPullResult> => {
+            const { serverId } = await loadState();
+            // One more than asked for tells whether more are waiting
+            const stored = await database.documents
+              .where("revision")
+              .above(since)
+              .limit(limit + 1)
+              .toArray();
+            const page = stored.slice(0, limit);
+            return {
+              serverId,
+              documents: page.map((entry) => entry.document),
+              revision: page[page.length - 1]?.revision ?? since,
+              hasMore: stored.length > limit,
+            };
+          },
+        ),
+      );
+    },
+
+    push(documents) {
+      // A copy keeps the caller and the server from sharing objects
+      const incoming = structuredClone(documents);
+      return request(() =>
+        database.transaction(
+          "rw",
+          database.documents,
+          database.state,
+          async () => {
+            const state = await loadState();
+            for (const document of incoming) {
+              const key: [string, string] = [document.table, document.uid];
+              const current = (await database.documents.get(key))?.document;
+              const next = current
+                ? resolveSyncConflict(current, document)
+                : document;
+              if (next === current) continue;
+              await database.documents.put({
+                table: document.table,
+                uid: document.uid,
+                revision: ++state.revision,
+                document: next,
+              });
+            }
+            await database.state.put(state);
+          },
+        ),
+      );
+    },
+
+    setOnline(value) {
+      online = value;
+    },
+
+    async reset() {
+      await database.transaction(
+        "rw",
+        database.documents,
+        database.state,
+        async () => {
+          await database.documents.clear();
+          await database.state.clear();
+        },
+      );
+    },
+
+    countDocuments() {
+      return database.documents.count();
+    },
+  };
+}
@@ -0,0 +1,32 @@
+import { db } from "@/db";
+import type { ExperimentProtocol } from "@/types/protocol";
+
+export async function listProtocols() {
+  return db.protocols.orderBy("name").toArray();
+}
+
+export async function saveProtocol(
+  definition: ExperimentProtocol,
+  protocolId?: string,
+) {
+  const now = Date.now();
+  if (protocolId !== undefined) {
+    await db.protocols.update(protocolId, {
+      name: definition.name,
+      definition,
+      updatedAt: now,
+    });
+    return protocolId;
+  }
+
+  return db.protocols.add({
+    name: definition.name,
+    definition,
+    createdAt: now,
+    updatedAt: now,
+  });
+}
+
+export async function deleteProtocol(protocolId: string) {
+  await db.protocols.delete(protocolId);
+}
@@ -0,0 +1,127 @@
+import Dexie from "dexie";
+import {
+  db,
+  getCurrentSessionId,
+  logEvent,
+  setCurrentSessionId,
+  type ExerciseMode,
+  type SessionDeviceInfo,
+  type SessionEndReason,
+  type SessionRecord,
+} from "@/db";
+
+export const SESSION_IDLE_TIMEOUT_MS = 5 * 60 * 1000;
+
+function collectDeviceInfo(): SessionDeviceInfo {
+  if (typeof window === "undefined") {
+    return {
+      userAgent: "",
+      language: "",
+      platform: "",
+      timezone: "",
+      screenWidth: 0,
+      screenHeight: 0,
+      devicePixelRatio: 1,
+      touch: false,
+    };
+  }
+
+  return {
+    userAgent: navigator.userAgent,
+    language: navigator.language,
+    platform: navigator.platform,
+    timezone: Intl.DateTimeFormat().resolvedOptions().timeZone,
+    screenWidth: window.screen.width,
+    screenHeight: window.screen.height,
+    devicePixelRatio: window.devicePixelRatio,
+    touch: navigator.maxTouchPoints > 0,
+  };
+}
+
+async function snapshotSettings(
+  userId: string,
+): Promise<SessionRecord["settingsSnapshot"]> {
+  const settings = await db.userSettings.get({ userId });
+  if (!settings) return null;
+
+  const snapshot: Partial<typeof settings> = { ...settings };
+  delete snapshot.id;
+  delete snapshot.userId;
+  delete snapshot.syncModifiedAt;
+  delete snapshot.localChangeAt;
+  delete snapshot.fieldModifiedAt;
+  return snapshot as SessionRecord["settingsSnapshot"];
+}
+
+export async function getOpenSession(userId: string) {
+  return db.sessions
+    .where("[userId+startedAt]")
+    .between([userId, Dexie.minKey], [userId, Dexie.maxKey])
+    .reverse()
+    .filter((session) => session.endedAt === undefined)
+    .first();
+}
+
+export async function startSession(userId: string, mode: ExerciseMode) {
+  const startedAt = Date.now();
+  const session: SessionRecord = {
+    userId,
+    startedAt,
+    lastActivityAt: startedAt,
+    mode,
+    settingsSnapshot: await snapshotSettings(userId),
+    deviceInfo: collectDeviceInfo(),
+  };
+  const sessionId = await db.sessions.add(session);
+  setCurrentSessionId(sessionId);
+
+  logEvent({
+    userId,
+    type: "session_started",
+    sessionId,
+    payload: { mode, deviceInfo: session.deviceInfo },
+    timestamp: startedAt,
+  });
+
+  return db.sessions.get(sessionId);
+}
+
+export async function resumeSession(session: SessionRecord) {
+  if (!session.id) return;
+  setCurrentSessionId(session.id);
+
+  logEvent({
+    userId: session.userId,
+    type: "session_resumed",
+    sessionId: session.id,
+    payload: { lastActivityAt: session.lastActivityAt },
+  });
+}
+
+export async function endSession(
+  session: SessionRecord,
+  reason: SessionEndReason,
+  endedAt = Date.now(),
+) {
+  if (!session.id) return;
+
+  await db.sessions.update(session.id, { endedAt, endReason: reason });
+  logEvent({
+    userId: session.userId,
+    type: "session_ended",
+    sessionId: session.id,
+    payload: {
+      reason,
+      duration: endedAt - session.startedAt,
+    },
+    timestamp: endedAt,
+  });
+
+  if (getCurrentSessionId() === session.id) {
+    setCurrentSessionId(undefined);
+  }
+}
+
+export async function touchSession(sessionId: string, timestamp = Date.now()) {
+  await db.sessions.update(sessionId, { lastActivityAt: timestamp });
+}
@@ -0,0 +1,36 @@
+import { db } from "@/db";
+import { flushEvents } from "@/db/eventQueue";
+
+/** Rows per table whose size the estimate is based on */
+const SIZE_SAMPLE_ROWS = 200;
+
+export interface TableUsage {
+  table: string;
+  rows: number;
+  estimatedBytes: number;
+}
+
+/**
+ * Row counts and estimated sizes of every table, largest first. IndexedDB
+ * doesn't report sizes per table, so each is extrapolated from the serialised
+ * size of its first rows by key, which for random IDs are a random sample.
+ */
+export async function estimateTableUsage(): Promise<TableUsage[]> {
+  await flushEvents();
+  const usage = await Promise.all(
+    db.tables.map(async (table) => {
+      const rows = await table.count();
+      const sample = await table.limit(SIZE_SAMPLE_ROWS).toArray();
+      const sampleBytes = new Blob([JSON.stringify(sample)]).size;
+      return {
+        table: table.name,
+        rows,
+        estimatedBytes:
+          sample.length > 0
+            ? Math.round((sampleBytes / sample.length) * rows)
+            : 0,
+      };
+    }),
+  );
+  return usage.sort((a, b) => b.estimatedBytes - a.estimatedBytes);
+}
@@ -0,0 +1,207 @@
+import { afterEach, beforeEach, describe, expect, it, vi } from "vitest";
+import { db } from "@/db";
+import { createMockSyncServer, type MockSyncServer } from "@/db/mockSyncServer";
+import { deleteProtocol, saveProtocol } from "@/db/protocols";
+import { resolveRecordId, syncNow } from "@/db/sync";
+import type { ExperimentProtocol } from "@/types/protocol";
+
+let server: MockSyncServer;
+let serverCount = 0;
+
+function createServer() {
+  return createMockSyncServer({
+    latencyMs: 0,
+    databaseName: `mockSyncTest${serverCount}`,
+  });
+}
+
+// Changes made in the millisecond a sync starts are sent again by the next
+// one, so the clock moves on before every sync
+function syncLater() {
+  vi.setSystemTime(Date.now() + 1_000);
+  return syncNow(server);
+}
+
+async function addUserWithExercise(name: string) {
+  const userId = await db.users.add({
+    name,
+    createdAt: 1_000,
+    lastActiveAt: 1_000,
+  });
+  const exerciseId = await db.exercises.add({
+    userId,
+    operands: [12, 30],
+    operation: "addition",
+    answer: 42,
+    displayedAt: 2_000,
+    mode: "self-paced",
+  });
+  return { userId, exerciseId };
+}
+
+const protocol: ExperimentProtocol = {
+  name: "Warm-up",
+  countdownSeconds: 3,
+  blocks: [{ id: "a", kind: "break", minutes: 1 }],
+};
+
+beforeEach(async () => {
+  vi.useFakeTimers({ toFake: ["Date"] });
+  vi.setSystemTime(new Date(2026, 0, 1));
+  serverCount++;
+  server = createServer();
+  window.localStorage.clear();
+  await db.open();
+});
+
+afterEach(async () => {
+  await server.reset();
+  await db.delete();
+  vi.useRealTimers();
+});
+
+describe("syncNow", () => {
+  it("pushes new records under their own IDs", async () => {
+    const { userId, exerciseId } = await addUserWithExercise("Ada");
+
+    const summary = await syncLater();
+
+    expect(summary.pushed).toBe(2);
+    expect(await server.countDocuments()).toBe(2);
+    const { documents } = await server.pull(0, 10);
+    const exercise = documents.find((doc) => doc.table === "exercises");
+    expect(exercise?.uid).toBe(exerciseId);
+    expect(exercise?.data?.userId).toBe(userId);
+    expect(exercise?.data).not.toHaveProperty("localChangeAt");
+  });
+
+  it("pushes only records changed since the last sync", async () => {
+    const { exerciseId } = await addUserWithExercise("Ada");
+    await syncLater();
+
+    expect((await syncLater()).pushed).toBe(0);
+
+    await db.exercises.update(exerciseId, { solvedAt: 3_000 });
+    const summary = await syncLater();
+    expect(summary.pushed).toBe(1);
+  });
+
+  it("does not rewrite pushed records when they come back", async () => {
+    const { exerciseId } = await addUserWithExercise("Ada");
+    await syncLater();
+    const before = await db.exercises.get(exerciseId);
+
+    await syncLater();
+
+    expect(await db.exercises.get(exerciseId)).toEqual(before);
+  });
+
+  it("stores records pulled from another device with their references", async () => {
+    await server.push([
+      {
+        table: "users",
+        uid: "user-b",
+        modifiedAt: 5_000,
+        data: { name: "Bea", createdAt: 5_000, lastActiveAt: 5_000 },
+      },
+      {
+        table: "exercises",
+        uid: "exercise-b",
+        modifiedAt: 5_000,
+        data: {
+          userId: "user-b",
+          operands: [1, 2],
+          operation: "addition",
+          answer: 3,
+          displayedAt: 5_000,
+          mode: "self-paced",
+        },
+      },
+    ]);
+
+    const summary = await syncLater();
+
+    expect(summary.pulled).toBe(2);
+    expect(summary.pushed).toBe(0);
+    const exercise = await db.exercises.get("exercise-b");
+    expect(exercise?.userId).toBe("user-b");
+    expect(exercise?.localChangeAt).toBe(0);
+  });
+
+  it("keeps the server's data when the page reloads", async () => {
+    await addUserWithExercise("Ada");
+    await syncLater();
+
+    server = createServer();
+    const summary = await syncLater();
+
+    expect(summary.pushed).toBe(0);
+    expect(await server.countDocuments()).toBe(2);
+  });
+});
+
+describe("deletions", () => {
+  it("sends deleted protocols as tombstones", async () => {
+    const protocolId = await saveProtocol(protocol);
+    await syncLater();
+
+    await deleteProtocol(protocolId);
+    const summary = await syncLater();
+
+    expect(summary.pushed).toBe(1);
+    const { documents } = await server.pull(0, 10);
+    expect(documents).toEqual([
+      expect.objectContaining({ uid: protocolId, deleted: true }),
+    ]);
+  });
+
+  it("records a tombstone for rows deleted through a query", async () => {
+    const { userId } = await addUserWithExercise("Ada");
+
+    await db.exercises.where("userId").equals(userId).delete();
+
+    const tombstones = await db.syncTombstones.toArray();
+    expect(tombstones).toEqual([
+      expect.objectContaining({ table: "exercises" }),
+    ]);
+  });
+
+  it("applies deletions from other devices without sending them back", async () => {
+    const { exerciseId } = await addUserWithExercise("Ada");
+    await syncLater();
+
+    await server.push([
+      {
+        table: "exercises",
+        uid: exerciseId,
+        modifiedAt: Date.now() + 1_000,
+        deleted: true,
+      },
+    ]);
+    const summary = await syncLater();
+
+    expect(await db.exercises.get(exerciseId)).toBeUndefined();
+    expect(summary.pushed).toBe(0);
+  });
+});
+
+describe("merging users created on two devices", () => {
+  it("moves a local user and its data to the smaller ID", async () => {
+    const { userId, exerciseId } = await addUserWithExercise("Ada");
+    const smallerId = "00000000-0000-4000-8000-000000000000";
+    await server.push([
+      {
+        table: "users",
+        uid: smallerId,
+        modifiedAt: 1,
+        data: { name: "Ada", createdAt: 1, lastActiveAt: 1 },
+      },
+    ]);
+
+    await syncLater();
+
+    expect(await db.users.get(userId)).toBeUndefined();
+    expect((await db.exercises.get(exerciseId))?.userId).toBe(smallerId);
+    expect(await resolveRecordId("users", userId)).toBe(smallerId);
+  });
+});
@@ -0,0 +1,380 @@
+import Dexie from "dexie";
+import { db, SYNCED_TABLES, type SyncMetadata, type SyncTable } from "@/db";
+import { rebuildDailyStats } from "@/db/dailyStats";
+import { flushEvents } from "@/db/eventQueue";
+import { markUntracked } from "@/db/syncIds";
+import {
+  resolveSyncConflict,
+  type SyncAdapter,
+  type SyncDocument,
+} from "@/db/syncAdapter";
+
+/** Documents per pull and push request */
+export const SYNC_BATCH_SIZE = 200;
+const SYNC_STATE_KEY_PREFIX = "maf.sync.";
+
+type SyncedRecord = SyncMetadata & { id?: string } & Record<string, unknown>;
+
+const LOCAL_FIELDS = ["id", "syncModifiedAt", "localChangeAt"] as const;
+
+/** Tables whose records point at their user */
+const USER_OWNED_TABLES = [
+  "userSettings",
+  "sessions",
+  "exercises",
+  "evaluations",
+  "events",
+] as const;
+
+export interface SyncSummary {
+  pulled: number;
+  pushed: number;
+  /**
+   * The pull merged records into others, so IDs held outside the database,
+   * such as the active user's, may have to be resolved again
+   */
+  merged: boolean;
+  finishedAt: number;
+}
+
+/** What applying pulled documents changed beyond the records themselves */
+interface PullEffects {
+  /** Users whose daily stats need rebuilding */
+  changedUserIds: Set<string>;
+  merged: boolean;
+}
+
+interface SyncState {
+  serverId: string | null;
+  pulledRevision: number;
+  /** Every local change stamped up to this time is on the server */
+  pushedAt: number;
+}
+
+function loadSyncState(adapter: SyncAdapter): SyncState {
+  const initial: SyncState = { serverId: null, pulledRevision: 0, pushedAt: 0 };
+  if (typeof window === "undefined") return initial;
+  try {
+    const stored = window.localStorage.getItem(
+      SYNC_STATE_KEY_PREFIX + adapter.name,
+    );
+    return stored ? { ...initial, ...JSON.parse(stored) } : initial;
+  } catch {
+    return initial;
+  }
+}
+
+function saveSyncState(adapter: SyncAdapter, state: SyncState) {
+  if (typeof window === "undefined") return;
+  window.localStorage.setItem(
+    SYNC_STATE_KEY_PREFIX + adapter.name,
+    JSON.stringify(state),
+  );
+}
+
+function syncedTable(table: SyncTable) {
+  return db.table<SyncedRecord, string>(table);
+}
+
+/**
+ * Current ID of a record named by an ID kept outside the database. Numeric
+ * IDs from before IDs were strings are looked up, and the IDs of records that
+ * sync merged into another are followed to it.
+ */
+export async function resolveRecordId(table: SyncTable, id: string) {
+  if (!/^\d+$/.test(id)) return followAliases(table, id);
+  const legacy = await db.legacyIds.get([table, Number(id)]);
+  return legacy && followAliases(table, legacy.id);
+}
+
+// An alias may point at an ID that became an alias itself
+async function followAliases(table: SyncTable, id: string) {
+  let current = id;
+  for (let hops = 0; hops < 10; hops++) {
+    if ((await syncedTable(table).where(":id").equals(current).count()) > 0) {
+      return current;
+    }
+    const alias = await db.syncAliases.get(current);
+    if (!alias || alias.table !== table) return undefined;
+    current = alias.targetUid;
+  }
+  return undefined;
+}
+
+async function findRecord(table: SyncTable, uid: string) {
+  const id = await followAliases(table, uid);
+  return id === undefined ? undefined : syncedTable(table).get(id);
+}
+
+function stripLocalFields(record: SyncedRecord) {
+  const data: Record<string, unknown> = structuredClone(record);
+  for (const field of LOCAL_FIELDS) delete data[field];
+  return data;
+}
+
+function toDocument(table: SyncTable, record: SyncedRecord): SyncDocument {
+  return {
+    table,
+    uid: record.id!,
+    modifiedAt: record.syncModifiedAt ?? 0,
+    data: stripLocalFields(record),
+  };
+}
+
+// Pushed records come back with the next pull, unchanged
+function isSameVersion(a: SyncDocument, b: SyncDocument) {
+  return (
+    a === b ||
+    (a.modifiedAt === b.modifiedAt &&
+      JSON.stringify(a.data) === JSON.stringify(b.data))
+  );
+}
+
+// Records that are the same thing even with different IDs, because both
+// devices created them before they synced
+async function findNaturalDuplicate(
+  table: SyncTable,
+  data: Record<string, unknown>,
+) {
+  if (table === "users" && typeof data.name === "string") {
+    return syncedTable(table).where("name").equals(data.name).first();
+  }
+  if (table === "userSettings" && typeof data.userId === "string") {
+    return syncedTable(table).where("userId").equals(data.userId).first();
+  }
+  return undefined;
+}
+
+/**
+ * Give a local user the ID its copy from another device has, and move its
+ * data along. The moved records are pushed so other devices follow.
+ */
+async function moveUser(fromId: string, toId: string) {
+  const now = Date.now();
+  for (const table of USER_OWNED_TABLES) {
+    await syncedTable(table)
+      .where("userId")
+      .equals(fromId)
+      .modify({ userId: toId, syncModifiedAt: now, localChangeAt: now });
+  }
+  await db.dailyStats.where("userId").equals(fromId).modify({ userId: toId });
+}
+
+async function applyDeletion(document: SyncDocument) {
+  const existing = await findRecord(document.table, document.uid);
+  if (existing) {
+    const current: SyncDocument = {
+      table: document.table,
+      uid: document.uid,
+      modifiedAt: existing.syncModifiedAt ?? 0,
+    };
+    if (resolveSyncConflict(current, document) !== document) return;
+    await syncedTable(document.table).delete(existing.id!);
+  }
+  await db.syncTombstones.put({
+    uid: document.uid,
+    table: document.table,
+    deletedAt: document.modifiedAt,
+    localChangeAt: 0,
+  });
+}
+
+async function applyDocument(document: SyncDocument, effects: PullEffects) {
+  const tombstone = await db.syncTombstones.get(document.uid);
+  if (tombstone && tombstone.deletedAt >= document.modifiedAt) return;
+  if (document.deleted) {
+    await applyDeletion(document);
+    return;
+  }
+
+  const data = structuredClone(document.data ?? {});
+  // The user may have been merged into another here
+  if (typeof data.userId === "string") {
+    data.userId = (await followAliases("users", data.userId)) ?? data.userId;
+  }
+
+  const incoming: SyncDocument = { ...document, data };
+  const local =
+    (await findRecord(document.table, document.uid)) ??
+    (await findNaturalDuplicate(document.table, data));
+  let winner = incoming;
+  let id = document.uid;
+  if (local) {
+    const current = toDocument(document.table, local);
+    winner = resolveSyncConflict(current, incoming);
+    // Merged copies settle on the smaller ID on every device
+    if (local.id !== document.uid) {
+      id = local.id! < document.uid ? local.id! : document.uid;
+      const otherId = id === local.id ? document.uid : local.id!;
+      await db.syncAliases.put({
+        uid: otherId,
+        table: document.table,
+        targetUid: id,
+      });
+      effects.merged = true;
+      if (id !== local.id) {
+        await syncedTable(document.table).delete(local.id!);
+        if (document.table === "users") await moveUser(local.id!, id);
+      }
+    }
+    if (id === local.id && isSameVersion(winner, current)) return;
+  }
+
+  // The server only has this version once it is pushed back
+  const changedHere = winner !== incoming || id !== document.uid;
+  await syncedTable(document.table).put({
+    ...winner.data,
+    id,
+    syncModifiedAt: winner.modifiedAt,
+    localChangeAt: changedHere ? Date.now() : 0,
+  });
+  if (
+    (document.table === "exercises" || document.table === "evaluations") &&
+    typeof data.userId === "string"
+  ) {
+    effects.changedUserIds.add(data.userId);
+  }
+}
+
+async function applyDocuments(documents: SyncDocument[], effects: PullEffects) {
+  // Users first, so records of a merged user are moved along with it
+  const order = (document: SyncDocument) =>
+    SYNCED_TABLES.indexOf(document.table);
+  const sorted = [...documents].sort((a, b) => order(a) - order(b));
+
+  await db.transaction(
+    "rw",
+    [
+      ...SYNCED_TABLES.map((table) => db.table(table)),
+      db.dailyStats,
+      db.syncAliases,
+      db.syncTombstones,
+    ],
+    async () => {
+      markUntracked(Dexie.currentTransaction);
+      for (const document of sorted) {
+        await applyDocument(document, effects);
+      }
+    },
+  );
+}
+
+async function pullChanges(adapter: SyncAdapter, state: SyncState) {
+  const effects: PullEffects = { changedUserIds: new Set(), merged: false };
+  let pulled = 0;
+  let hasMore = true;
+  while (hasMore) {
+    const page = await adapter.pull(state.pulledRevision, SYNC_BATCH_SIZE);
+    if (page.serverId !== state.serverId) {
+      // A different or emptied server: start over, pushing everything again
+      const restarted = state.pulledRevision !== 0;
+      Object.assign(state, {
+        serverId: page.serverId,
+        pulledRevision: 0,
+        pushedAt: 0,
+      });
+      if (restarted) continue;
+    }
+
+    await applyDocuments(page.documents, effects);
+    pulled += page.documents.length;
+    state.pulledRevision = page.revision;
+    saveSyncState(adapter, state);
+    hasMore = page.hasMore;
+  }
+
+  for (const userId of effects.changedUserIds) {
+    await rebuildDailyStats(userId);
+  }
+  return { pulled, merged: effects.merged };
+}
+
+/**
+ * Find what changed after the last push. The read waits for write
+ * transactions that started before it, so every change stamped before the
+ * returned time is included.
+ */
+async function findLocalChanges(since: number) {
+  return db.transaction(
+    "r",
+    [...SYNCED_TABLES.map((table) => db.table(table)), db.syncTombstones],
+    async () => {
+      const changedIds = new Map<SyncTable, string[]>();
+      for (const table of SYNCED_TABLES) {
+        changedIds.set(
+          table,
+          await syncedTable(table)
+            .where("localChangeAt")
+            .above(since)
+            .primaryKeys(),
+        );
+      }
+      const tombstones = await db.syncTombstones
+        .where("localChangeAt")
+        .above(since)
+        .toArray();
+      return { changedIds, tombstones };
+    },
+  );
+}
+
+async function pushChanges(adapter: SyncAdapter, state: SyncState) {
+  // Taken before the read, so later writes are stamped after it
+  const startedAt = Date.now();
+  const { changedIds, tombstones } = await findLocalChanges(state.pushedAt);
+  let pushed = 0;
+
+  for (const [table, ids] of changedIds) {
+    for (let start = 0; start < ids.length; start += SYNC_BATCH_SIZE) {
+      const records = (
+        await syncedTable(table).bulkGet(
+          ids.slice(start, start + SYNC_BATCH_SIZE),
+        )
+      ).filter((record): record is SyncedRecord => record !== undefined);
+      await adapter.push(records.map((record) => toDocument(table, record)));
+      pushed += records.length;
+    }
+  }
+
+  for (let start = 0; start < tombstones.length; start += SYNC_BATCH_SIZE) {
+    const batch = tombstones.slice(start, start + SYNC_BATCH_SIZE);
+    await adapter.push(
+      batch.map((tombstone) => ({
+        table: tombstone.table,
+        uid: tombstone.uid,
+        modifiedAt: tombstone.deletedAt,
+        deleted: true,
+      })),
+    );
+    pushed += batch.length;
+  }
+
+  // A write in the same millisecond may have followed the read
+  state.pushedAt = startedAt - 1;
+  return pushed;
+}
+
+let runningSync: Promise<SyncSummary> | null = null;
+
+async function runSync(adapter: SyncAdapter): Promise<SyncSummary> {
+  await flushEvents();
+  const state = loadSyncState(adapter);
+
+  // Pulling first lets merges happen locally before they are pushed
+  const { pulled, merged } = await pullChanges(adapter, state);
+  const pushed = await pushChanges(adapter, state);
+  saveSyncState(adapter, state);
+
+  return { pulled, pushed, merged, finishedAt: Date.now() };
+}
+
+/**
+ * Exchange changes with the server: pull what other devices wrote, then push
+ * what changed here since the last sync. Concurrent calls share one run.
+ */
+export function syncNow(adapter: SyncAdapter) {
+  runningSync ??= runSync(adapter).finally(() => {
+    runningSync = null;
+  });
+  return runningSync;
+}
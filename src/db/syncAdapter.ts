@@ -0,0 +1,144 @@
+import type { SyncTable } from "@/db";
+
+/**
+ * A synced record as it travels between devices, named by its ID as uid.
+ * Record IDs are the same on every device, so references need no translation.
+ */
+export interface SyncDocument {
+  table: SyncTable;
+  uid: string;
+  /** When the record last changed on any device */
+  modifiedAt: number;
+  deleted?: boolean;
+  /** Absent on deletions */
+  data?: Record<string, unknown>;
+}
+
+export interface SyncPullResult {
+  /** Changes when the server loses its data, which starts sync over */
+  serverId: string;
+  documents: SyncDocument[];
+  /** Pass to the next pull to get only later changes */
+  revision: number;
+  hasMore: boolean;
+}
+
+/**
+ * What a sync backend has to provide, e.g. Dexie Cloud or a self-hosted
+ * server. Servers resolve conflicting pushes with resolveSyncConflict, so
+ * every copy of a record ends up the same.
+ */
+export interface SyncAdapter {
+  readonly name: string;
+  /** Documents stored or changed after the given revision, oldest first */
+  pull(since: number, limit: number): Promise<SyncPullResult>;
+  push(documents: SyncDocument[]): Promise<void>;
+}
+
+// Equal timestamps still have to pick the same winner on every device
+function compareValues(a: unknown, b: unknown) {
+  const textA = JSON.stringify(a) ?? "";
+  const textB = JSON.stringify(b) ?? "";
+  return textA < textB ? -1 : textA > textB ? 1 : 0;
+}
+
+const SETTINGS_BOOKKEEPING = new Set([
+  "userId",
+  "updatedAt",
+  "fieldModifiedAt",
+]);
+
+// Settings from before per-field stamps count as changed with the record, and
+// a setting that was never set loses to any that was
+function fieldStamp(
+  document: SyncDocument,
+  stamps: Record<string, number>,
+  field: string,
+) {
+  if (stamps[field] !== undefined) return stamps[field];
+  return document.data && field in document.data ? document.modifiedAt : 0;
+}
+
+/**
+ * Settings merge per field: each setting keeps the value that was changed
+ * last, so changing the timer on one device and the operations on another
+ * keeps both. Returns one of the two documents when it wins every field.
+ */
+function mergeSettings(current: SyncDocument, incoming: SyncDocument) {
+  const currentData = current.data ?? {};
+  const incomingData = incoming.data ?? {};
+  const currentStamps = (currentData.fieldModifiedAt ?? {}) as Record<
+    string,
+    number
+  >;
+  const incomingStamps = (incomingData.fieldModifiedAt ?? {}) as Record<
+    string,
+    number
+  >;
+
+  const merged: Record<string, unknown> = { ...incomingData };
+  const stamps: Record<string, number> = {};
+  let keptCurrent = false;
+  let keptIncoming = false;
+  const fields = new Set([
+    ...Object.keys(currentData),
+    ...Object.keys(incomingData),
+  ]);
+  for (const field of fields) {
+    if (SETTINGS_BOOKKEEPING.has(field)) continue;
+    const currentStamp = fieldStamp(current, currentStamps, field);
+    const incomingStamp = fieldStamp(incoming, incomingStamps, field);
+    const order = compareValues(currentData[field], incomingData[field]);
+    if (order === 0) {
+      stamps[field] = Math.max(currentStamp, incomingStamp);
+      continue;
+    }
+
+    const currentWins =
+      currentStamp > incomingStamp ||
+      (currentStamp === incomingStamp && order > 0);
+    if (currentWins) {
+      keptCurrent = true;
+      stamps[field] = currentStamp;
+      if (currentData[field] === undefined) delete merged[field];
+      else merged[field] = currentData[field];
+    } else {
+      keptIncoming = true;
+      stamps[field] = incomingStamp;
+    }
+  }
+
+  if (!keptCurrent) return incoming;
+  if (!keptIncoming) return current;
+  merged.fieldModifiedAt = stamps;
+  merged.updatedAt = Math.max(
+    Number(currentData.updatedAt) || 0,
+    Number(incomingData.updatedAt) || 0,
+  );
+  return {
+    table: incoming.table,
+    uid: current.uid < incoming.uid ? current.uid : incoming.uid,
+    modifiedAt: Math.max(current.modifiedAt, incoming.modifiedAt),
+    data: merged,
+  };
+}
+
+/**
+ * Conflict rules for two versions of a record: settings merge per field,
+ * everything else is last writer wins, and a deletion stands unless the
+ * record changed after it
+ */
+export function resolveSyncConflict(
+  current: SyncDocument,
+  incoming: SyncDocument,
+): SyncDocument {
+  if (!!current.deleted !== !!incoming.deleted) {
+    const deletion = current.deleted ? current : incoming;
+    const change = current.deleted ? incoming : current;
+    return change.modifiedAt > deletion.modifiedAt ? change : deletion;
+  }
+  if (!incoming.deleted && incoming.table === "userSettings") {
+    return mergeSettings(current, incoming);
+  }
+  return incoming.modifiedAt >= current.modifiedAt ? incoming : current;
+}
@@ -0,0 +1,195 @@
+import Dexie from "dexie";
+import { beforeAll, describe, expect, it } from "vitest";
+import { db } from "@/db";
+import { resolveRecordId } from "@/db/sync";
+import { legacyUid } from "@/db/syncIds";
+
+// The tables as version 10 left them: auto-increment keys, no uids
+const VERSION_10_STORES = {
+  users: "++id,&name,lastActiveAt",
+  exercises:
+    "++id,userId,mode,operation,displayedAt,solvedAt,sessionId,protocolId,[userId+displayedAt]",
+  events: "++id,userId,exerciseId,sessionId,protocolId,type,timestamp",
+  evaluations: "++id,userId,createdAt,scope,mode,sessionId,[userId+createdAt]",
+  userSettings: "++id,&userId,updatedAt",
+  sessions: "++id,userId,startedAt,endedAt,[userId+startedAt]",
+  protocols: "++id,name,updatedAt",
+  dailyStats: "++id,userId,[userId+day]",
+};
+
+const userUid = legacyUid("user", "Ada");
+const sessionUid = legacyUid("session", userUid, 2);
+const protocolUid = legacyUid("protocol", "Warm-up", 1);
+const exerciseUid = legacyUid("exercise", userUid, 3, "addition", "1,2");
+const evaluationUid = legacyUid(
+  "evaluation",
+  userUid,
+  5,
+  "the last exercise",
+  5,
+);
+
+beforeAll(async () => {
+  const legacy = new Dexie(db.name);
+  legacy.version(10).stores(VERSION_10_STORES);
+  // A user created and deleted before moves the IDs away from the defaults
+  await legacy.table("users").bulkAdd([
+    { name: "Gone", createdAt: 1, lastActiveAt: 1 },
+    { name: "Ada", createdAt: 1, lastActiveAt: 1 },
+  ]);
+  await legacy.table("users").delete(1);
+  await legacy.table("userSettings").add({
+    userId: 2,
+    graduallyIncreaseDifficulty: false,
+    updatedAt: 1,
+  });
+  await legacy.table("protocols").add({
+    name: "Warm-up",
+    definition: { name: "Warm-up", countdownSeconds: 3, blocks: [] },
+    createdAt: 1,
+    updatedAt: 1,
+  });
+  await legacy.table("sessions").add({
+    userId: 2,
+    startedAt: 2,
+    lastActivityAt: 2,
+    mode: "self-paced",
+  });
+  await legacy.table("exercises").bulkAdd([
+    {
+      userId: 2,
+      sessionId: 1,
+      protocolId: 1,
+      evaluationId: 1,
+      operands: [1, 2],
+      operation: "addition",
+      answer: 3,
+      displayedAt: 3,
+      mode: "self-paced",
+    },
+    {
+      userId: 2,
+      // The session was lost, e.g. to a failed import
+      sessionId: 7,
+      operands: [2, 2],
+      operation: "addition",
+      answer: 4,
+      displayedAt: 4,
+      mode: "self-paced",
+    },
+  ]);
+  await legacy.table("evaluations").add({
+    userId: 2,
+    sessionId: 1,
+    scope: "the last exercise",
+    rating: 5,
+    exerciseIds: [1],
+    mode: "self-paced",
+    createdAt: 5,
+  });
+  await legacy.table("events").bulkAdd([
+    {
+      userId: 2,
+      exerciseId: 1,
+      type: "evaluation_attached",
+      payload: { evaluationId: 1, exerciseIds: [1] },
+      timestamp: 6,
+    },
+    {
+      userId: 2,
+      type: "window_focus",
+      payload: { focused: true },
+      timestamp: 6,
+    },
+    {
+      userId: 2,
+      type: "window_focus",
+      payload: { focused: false },
+      timestamp: 6,
+    },
+  ]);
+  await legacy.table("dailyStats").add({ userId: 2, day: "2026-01-01" });
+  legacy.close();
+
+  await db.open();
+});
+
+describe("upgrading a version 10 database", () => {
+  it("keys records by uids derived from their content", async () => {
+    expect(await db.users.toArray()).toEqual([
+      expect.objectContaining({ id: userUid, name: "Ada" }),
+    ]);
+    expect(await db.sessions.get(sessionUid)).toBeDefined();
+    expect(await db.protocols.get(protocolUid)).toBeDefined();
+    expect(await db.userSettings.get({ userId: userUid })).toBeDefined();
+    expect(await db.exercises.count()).toBe(2);
+    expect(await db.exercises.where(":id").below("").count()).toBe(0);
+  });
+
+  it("rewrites references to uids", async () => {
+    expect(await db.exercises.get(exerciseUid)).toMatchObject({
+      userId: userUid,
+      sessionId: sessionUid,
+      protocolId: protocolUid,
+      evaluationId: evaluationUid,
+    });
+    expect(await db.evaluations.get(evaluationUid)).toMatchObject({
+      userId: userUid,
+      sessionId: sessionUid,
+      exerciseIds: [exerciseUid],
+    });
+    const [attached] = await db.events
+      .where("type")
+      .equals("evaluation_attached")
+      .toArray();
+    expect(attached).toMatchObject({
+      userId: userUid,
+      exerciseId: exerciseUid,
+      payload: { evaluationId: evaluationUid, exerciseIds: [exerciseUid] },
+    });
+    expect((await db.dailyStats.toArray())[0]?.userId).toBe(userUid);
+  });
+
+  it("gives references to missing records a uid of their own", async () => {
+    const [lost] = await db.exercises.where({ displayedAt: 4 }).toArray();
+    expect(lost?.sessionId).toBe(legacyUid("missing", "sessions", 7));
+  });
+
+  it("tells events of the same millisecond apart and keeps their order", async () => {
+    const events = await db.events.where({ type: "window_focus" }).toArray();
+    expect(new Set(events.map((event) => event.id)).size).toBe(2);
+    expect(
+      events
+        .sort((a, b) => a.sequence! - b.sequence!)
+        .map((event) => [event.sequence, event.payload.focused]),
+    ).toEqual([
+      [2, true],
+      [3, false],
+    ]);
+  });
+
+  it("stamps migrated records so the first sync sends them", async () => {
+    const user = await db.users.get(userUid);
+    expect(user?.localChangeAt).toEqual(expect.any(Number));
+  });
+
+  it("maps old numeric IDs to the new ones", async () => {
+    expect(await resolveRecordId("users", "2")).toBe(userUid);
+    expect(await resolveRecordId("exercises", "1")).toBe(exerciseUid);
+    expect(await resolveRecordId("sessions", "1")).toBe(sessionUid);
+    expect(await resolveRecordId("users", "1")).toBeUndefined();
+    expect(await db.legacyIds.count()).toBe(7);
+  });
+});
+
+describe("new records", () => {
+  it("get a random string ID", async () => {
+    const id = await db.users.add({
+      name: "Bea",
+      createdAt: 1,
+      lastActiveAt: 1,
+    });
+    expect(id).toMatch(/^[0-9a-f-]{36}$/);
+    expect((await db.users.get(id))?.localChangeAt).toEqual(expect.any(Number));
+  });
+});
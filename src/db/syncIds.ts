@@ -0,0 +1,393 @@
+import Dexie, {
+  type DBCore,
+  type DBCoreMutateRequest,
+  type DBCoreTable,
+  type IndexableType,
+  type Transaction,
+} from "dexie";
+import {
+  SYNCED_TABLES,
+  type SyncMetadata,
+  type SyncTable,
+  type SyncTombstoneRecord,
+  type UserSettingsRecord,
+} from "@/db";
+
+// Writes in these transactions come from elsewhere and are not local changes
+const untrackedTransactions = new WeakSet<Transaction>();
+
+export function markUntracked(transaction: Transaction) {
+  untrackedTransactions.add(transaction);
+}
+
+function isSyncTable(name: string): name is SyncTable {
+  return (SYNCED_TABLES as readonly string[]).includes(name);
+}
+
+const SETTINGS_BOOKKEEPING = new Set([
+  "id",
+  "userId",
+  "updatedAt",
+  "fieldModifiedAt",
+  "syncModifiedAt",
+  "localChangeAt",
+]);
+
+function stampSettingsFields(
+  fields: string[],
+  stamps: Record<string, number> | undefined,
+  now: number,
+) {
+  const next = { ...stamps };
+  for (const field of fields) {
+    // Nested changes arrive as key paths such as "staircase.level"
+    const setting = field.split(".")[0]!;
+    if (!SETTINGS_BOOKKEEPING.has(setting)) next[setting] = now;
+  }
+  return next;
+}
+
+/**
+ * Record a tombstone for every local deletion from a synced table, however
+ * the rows were deleted. Read-write transactions on synced tables include the
+ * tombstone table for this.
+ */
+function createTombstoneMiddleware(down: DBCore): Partial<DBCore> {
+  async function deletedKeys(
+    table: DBCoreTable,
+    request: DBCoreMutateRequest & { type: "delete" | "deleteRange" },
+  ): Promise<IndexableType[]> {
+    if (request.type === "deleteRange") {
+      const { result } = await table.query({
+        trans: request.trans,
+        values: false,
+        query: { index: table.schema.primaryKey, range: request.range },
+      });
+      return result;
+    }
+    const existing = await table.getMany({
+      trans: request.trans,
+      keys: request.keys,
+    });
+    return request.keys.filter((_key, index) => existing[index] !== undefined);
+  }
+
+  return {
+    transaction(stores, mode, options) {
+      const widened =
+        mode === "readwrite" &&
+        stores.some(isSyncTable) &&
+        !stores.includes("syncTombstones")
+          ? [...stores, "syncTombstones"]
+          : stores;
+      return down.transaction(widened, mode, options);
+    },
+
+    table(name) {
+      const table = down.table(name);
+      if (!isSyncTable(name)) return table;
+      return {
+        ...table,
+        async mutate(request) {
+          if (
+            (request.type !== "delete" && request.type !== "deleteRange") ||
+            (Dexie.currentTransaction &&
+              untrackedTransactions.has(Dexie.currentTransaction))
+          ) {
+            return table.mutate(request);
+          }
+
+          const keys = await deletedKeys(table, request);
+          const response = await table.mutate(request);
+          if (keys.length > 0) {
+            const now = Date.now();
+            // Looked up here, as upgrades run before the table exists
+            await down.table("syncTombstones").mutate({
+              type: "put",
+              trans: request.trans,
+              values: keys.map(
+                (uid): SyncTombstoneRecord => ({
+                  uid: String(uid),
+                  table: name,
+                  deletedAt: now,
+                  localChangeAt: now,
+                }),
+              ),
+            });
+          }
+          return response;
+        },
+      };
+    },
+  };
+}
+
+/**
+ * Give new records a random string ID and stamp every local write, so the
+ * next sync knows what to send. Settings also get per-field stamps for
+ * merging, and deletions leave tombstones.
+ */
+export function trackLocalChanges(db: Dexie) {
+  for (const name of SYNCED_TABLES) {
+    const table = db.table<SyncMetadata & Partial<UserSettingsRecord>>(name);
+
+    table.hook("creating", (key, record, transaction) => {
+      // Records written by sync or imports already have their ID
+      const id = key === undefined ? crypto.randomUUID() : undefined;
+      if (untrackedTransactions.has(transaction)) return id;
+      const now = Date.now();
+      record.syncModifiedAt = now;
+      record.localChangeAt = now;
+      if (name === "userSettings") {
+        record.fieldModifiedAt = stampSettingsFields(
+          Object.keys(record),
+          undefined,
+          now,
+        );
+      }
+      return id;
+    });
+
+    table.hook("updating", (changes, _key, record, transaction) => {
+      if (untrackedTransactions.has(transaction)) return;
+      const now = Date.now();
+      const stamps = { syncModifiedAt: now, localChangeAt: now };
+      if (name !== "userSettings") return stamps;
+      return {
+        ...stamps,
+        fieldModifiedAt: stampSettingsFields(
+          Object.keys(changes),
+          record.fieldModifiedAt,
+          now,
+        ),
+      };
+    });
+  }
+
+  db.use({
+    stack: "dbcore",
+    name: "syncTombstones",
+    create: createTombstoneMiddleware,
+  });
+}
+
+// cyrb53: a fast 53-bit string hash; not cryptographic, which is fine here
+function hash53(text: string, seed: number) {
+  let h1 = 0xdeadbeef ^ seed;
+  let h2 = 0x41c6ce57 ^ seed;
+  for (let i = 0; i < text.length; i++) {
+    const char = text.charCodeAt(i);
+    h1 = Math.imul(h1 ^ char, 2654435761);
+    h2 = Math.imul(h2 ^ char, 1597334677);
+  }
+  h1 = Math.imul(h1 ^ (h1 >>> 16), 2246822507);
+  h1 ^= Math.imul(h2 ^ (h2 >>> 13), 3266489909);
+  h2 = Math.imul(h2 ^ (h2 >>> 16), 2246822507);
+  h2 ^= Math.imul(h1 ^ (h1 >>> 13), 3266489909);
+  return 4294967296 * (2097151 & h2) + (h1 >>> 0);
+}
+
+/**
+ * uid of a record created before uids existed, derived from the same natural
+ * keys the data import matches on. Devices holding copies of the same history,
+ * e.g. through an export, so agree on its uids and don't duplicate it.
+ */
+export function legacyUid(...parts: (string | number)[]) {
+  const text = parts.join("|");
+  return `legacy-${[1, 2]
+    .map((seed) => hash53(text, seed).toString(16).padStart(14, "0"))
+    .join("")}`;
+}
+
+/** Synced record as stored before version 11, keyed by an auto-increment ID */
+interface LegacyRecord extends SyncMetadata {
+  id: number;
+  userId: number;
+  [field: string]: unknown;
+}
+
+const MIGRATION_BATCH_SIZE = 1000;
+
+/** Fields that held the auto-increment ID of another record */
+const LEGACY_REFERENCES: Record<string, SyncTable> = {
+  userId: "users",
+  sessionId: "sessions",
+  protocolId: "protocols",
+  exerciseId: "exercises",
+  evaluationId: "evaluations",
+};
+
+// Reads a table in key order without loading all of it at once
+async function forEachBatch(
+  transaction: Transaction,
+  table: SyncTable,
+  handle: (records: LegacyRecord[]) => void,
+) {
+  let lastKey: IndexableType = Dexie.minKey;
+  for (;;) {
+    const records: LegacyRecord[] = await transaction
+      .table<LegacyRecord>(table)
+      .where(":id")
+      .above(lastKey)
+      .limit(MIGRATION_BATCH_SIZE)
+      .toArray();
+    if (records.length === 0) return;
+    handle(records);
+    lastKey = records[records.length - 1]!.id;
+  }
+}
+
+/**
+ * Version 11 upgrade: key every synced record by a uid instead of its
+ * auto-increment ID, rewrite the references between records to uids and
+ * remember which uid each old ID became. The tables keep their auto-increment
+ * key path, as IndexedDB can't change it, but only hold string keys from here
+ * on.
+ */
+export async function moveToUidKeys(transaction: Transaction) {
+  markUntracked(transaction);
+  const now = Date.now();
+
+  const uids = new Map<SyncTable, Map<number, string>>(
+    SYNCED_TABLES.map((table) => [table, new Map()]),
+  );
+  // References to records that no longer exist still get a uid, the same one
+  // on every device
+  function toUid(table: SyncTable, id: unknown) {
+    if (typeof id !== "number") return id;
+    return uids.get(table)!.get(id) ?? legacyUid("missing", table, id);
+  }
+
+  // Records with equal natural keys, e.g. events of the same millisecond, are
+  // told apart by their order
+  function claimer() {
+    const taken = new Set<string>();
+    return (...parts: unknown[]) => {
+      const keys = parts as (string | number)[];
+      let uid = legacyUid(...keys);
+      for (let n = 2; taken.has(uid); n++) uid = legacyUid(...keys, n);
+      taken.add(uid);
+      return uid;
+    };
+  }
+
+  // Referenced tables first, so the natural keys of later ones can use their
+  // uids
+  const naturalKeys: [SyncTable, (record: LegacyRecord) => unknown[]][] = [
+    ["users", (user) => ["user", user.name]],
+    [
+      "protocols",
+      (protocol) => ["protocol", protocol.name, protocol.createdAt],
+    ],
+    [
+      "userSettings",
+      (settings) => ["settings", toUid("users", settings.userId)],
+    ],
+    [
+      "sessions",
+      (session) => [
+        "session",
+        toUid("users", session.userId),
+        session.startedAt,
+      ],
+    ],
+    [
+      "exercises",
+      (exercise) => [
+        "exercise",
+        toUid("users", exercise.userId),
+        exercise.displayedAt,
+        exercise.operation ?? "addition",
+        (exercise.operands as number[]).join(","),
+      ],
+    ],
+    [
+      "evaluations",
+      (evaluation) => [
+        "evaluation",
+        toUid("users", evaluation.userId),
+        evaluation.createdAt,
+        evaluation.scope,
+        evaluation.rating,
+      ],
+    ],
+  ];
+  for (const [table, naturalKey] of naturalKeys) {
+    const claim = claimer();
+    const ids = uids.get(table)!;
+    await forEachBatch(transaction, table, (records) => {
+      for (const record of records) {
+        ids.set(record.id, claim(...naturalKey(record)));
+      }
+    });
+  }
+
+  function rewriteReferences(data: Record<string, unknown>) {
+    for (const [field, table] of Object.entries(LEGACY_REFERENCES)) {
+      if (data[field] !== undefined) data[field] = toUid(table, data[field]);
+    }
+    if (Array.isArray(data.exerciseIds)) {
+      data.exerciseIds = data.exerciseIds.map((id) => toUid("exercises", id));
+    }
+  }
+
+  const claimEventUid = claimer();
+  for (const table of SYNCED_TABLES) {
+    // Numbers sort before strings, so the records still to move come first
+    for (;;) {
+      const records = await transaction
+        .table<LegacyRecord>(table)
+        .where(":id")
+        .below("")
+        .limit(MIGRATION_BATCH_SIZE)
+        .toArray();
+      if (records.length === 0) break;
+
+      const moved = records.map((record) => {
+        const data: Record<string, unknown> = {
+          ...record,
+          // Stamped so the first sync sends the whole history
+          syncModifiedAt: now,
+          localChangeAt: now,
+        };
+        rewriteReferences(data);
+        if (table === "events") {
+          data.id = claimEventUid(
+            "event",
+            data.userId as string,
+            record.timestamp,
+            record.type,
+            (data.exerciseId as string | undefined) ?? "",
+          );
+          // Event payloads name exercises, evaluations and imported users
+          const payload = { ...(record.payload as Record<string, unknown>) };
+          rewriteReferences(payload);
+          data.payload = payload;
+          data.sequence = record.id;
+        } else {
+          data.id = toUid(table, record.id);
+        }
+        return data;
+      });
+      await transaction.table(table).bulkDelete(records.map(({ id }) => id));
+      await transaction.table(table).bulkAdd(moved);
+
+      // Event IDs were never kept outside the database
+      if (table === "events") continue;
+      await transaction.table("legacyIds").bulkAdd(
+        records.map((record) => ({
+          table,
+          legacyId: record.id,
+          id: toUid(table, record.id),
+        })),
+      );
+    }
+  }
+
+  await transaction
+    .table<{ userId: unknown }>("dailyStats")
+    .toCollection()
+    .modify((stats) => {
+      stats.userId = toUid("users", stats.userId);
+    });
+}
@@ -2,6 +2,13 @@ import { createApp } from "vue";
 import "./style.css";
 import App from "./App.vue";
 import router from "./router";
+import { flushEvents, setPageHidden } from "@/db/eventQueue";
+
+// A closing page may not come back, so queued events are written first
+document.addEventListener("visibilitychange", () =>
+  setPageHidden(document.hidden),
+);
+window.addEventListener("pagehide", () => void flushEvents());
 
 const app = createApp(App);
 
@@ -25,6 +25,21 @@ const router = createRouter({
       name: "stats",
       component: () => import("@/views/StatsView.vue"),
     },
+    {
+      path: "/protocols",
+      name: "protocols",
+      component: () => import("@/views/ProtocolsView.vue"),
+    },
+    {
+      path: "/cohort",
+      name: "cohort",
+      component: () => import("@/views/CohortView.vue"),
+    },
+    {
+      path: "/replay",
+      name: "replay",
+      component: () => import("@/views/ReplayView.vue"),
+    },
   ],
 });
 
@@ -19,3 +19,38 @@ export function mergeDifficultyWeights(
     zeros: overrides?.zeros ?? DEFAULT_DIFFICULTY_WEIGHTS.zeros,
   };
 }
+
+export interface CountRange {
+  min?: number;
+  max?: number;
+}
+
+export interface FixedDifficultySettings {
+  enabled: boolean;
+  /** Normalized predicted difficulty (0-100) every exercise should land on */
+  target: number;
+  /** Accepted distance from the target on the same 0-100 scale */
+  tolerance: number;
+  carries: CountRange;
+  zeros: CountRange;
+}
+
+export const DEFAULT_FIXED_DIFFICULTY: FixedDifficultySettings = {
+  enabled: false,
+  target: 50,
+  tolerance: 5,
+  carries: {},
+  zeros: {},
+};
+
+export function mergeFixedDifficulty(
+  overrides?: Partial<FixedDifficultySettings> | null,
+): FixedDifficultySettings {
+  return {
+    enabled: overrides?.enabled ?? DEFAULT_FIXED_DIFFICULTY.enabled,
+    target: overrides?.target ?? DEFAULT_FIXED_DIFFICULTY.target,
+    tolerance: overrides?.tolerance ?? DEFAULT_FIXED_DIFFICULTY.tolerance,
+    carries: { ...overrides?.carries },
+    zeros: { ...overrides?.zeros },
+  };
+}
@@ -0,0 +1,55 @@
+import type { EvaluationScope } from "@/db";
+
+export interface EvaluationSchedule {
+  promptProbability: number;
+  scopeWeights: Record<EvaluationScope, number>;
+}
+
+export const EVALUATION_SCOPES: EvaluationScope[] = [
+  "this task",
+  "the last exercise",
+  "the last three exercises",
+  "the last five exercises",
+  "the last 10 exercises",
+];
+
+export const EVALUATION_SCOPE_SIZES: Record<EvaluationScope, number> = {
+  "this task": 1,
+  "the last exercise": 1,
+  "the last three exercises": 3,
+  "the last five exercises": 5,
+  "the last 10 exercises": 10,
+};
+
+export const DEFAULT_EVALUATION_SCHEDULE: EvaluationSchedule = {
+  promptProbability: 0.3,
+  scopeWeights: {
+    "this task": 1,
+    "the last exercise": 1,
+    "the last three exercises": 1,
+    "the last five exercises": 1,
+    "the last 10 exercises": 1,
+  },
+};
+
+export function mergeEvaluationSchedule(
+  overrides?: {
+    promptProbability?: number;
+    scopeWeights?: Partial<Record<EvaluationScope, number>>;
+  } | null,
+): EvaluationSchedule {
+  const scopeWeights = { ...DEFAULT_EVALUATION_SCHEDULE.scopeWeights };
+  EVALUATION_SCOPES.forEach((scope) => {
+    const weight = overrides?.scopeWeights?.[scope];
+    if (weight !== undefined) {
+      scopeWeights[scope] = weight;
+    }
+  });
+
+  return {
+    promptProbability:
+      overrides?.promptProbability ??
+      DEFAULT_EVALUATION_SCHEDULE.promptProbability,
+    scopeWeights,
+  };
+}
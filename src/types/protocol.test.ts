@@ -0,0 +1,140 @@
+import { describe, expect, it } from "vitest";
+import {
+  DEFAULT_PROTOCOL,
+  validateProtocol,
+  type ProtocolBlock,
+} from "@/types/protocol";
+
+function withBlock(block: Partial<ProtocolBlock>) {
+  return {
+    name: "Test",
+    countdownSeconds: 3,
+    blocks: [{ id: "a", kind: "timed", exercises: 10, ...block }],
+  };
+}
+
+describe("validateProtocol", () => {
+  it("accepts the example protocol", () => {
+    expect(validateProtocol(DEFAULT_PROTOCOL)).toEqual([]);
+  });
+
+  it("rejects values that are not objects", () => {
+    for (const value of [null, [], "protocol"]) {
+      expect(validateProtocol(value)).toEqual([
+        "The protocol must be a JSON object.",
+      ]);
+    }
+  });
+
+  it("requires a name, a countdown and at least one block", () => {
+    expect(
+      validateProtocol({ name: " ", countdownSeconds: -1, blocks: [] }),
+    ).toEqual([
+      '"name" is required.',
+      '"countdownSeconds" must be zero or more.',
+      '"blocks" must list at least one block.',
+    ]);
+  });
+
+  it("requires unique block IDs and a known kind", () => {
+    expect(
+      validateProtocol({
+        name: "Test",
+        countdownSeconds: 0,
+        blocks: [
+          { id: "a", kind: "break", minutes: 1 },
+          { id: "a", kind: "warm-up", minutes: 1 },
+        ],
+      }),
+    ).toEqual([
+      'Block 2: id "a" is used twice.',
+      'Block 2: "kind" must be one of practice, self-paced, timed, break.',
+    ]);
+  });
+
+  it("requires exercise blocks to have an end", () => {
+    expect(validateProtocol(withBlock({ exercises: undefined }))).toEqual([
+      'Block 1: set "exercises" or "minutes" so the block can end.',
+    ]);
+    expect(
+      validateProtocol(withBlock({ kind: "break", exercises: undefined })),
+    ).toEqual([]);
+  });
+
+  it("checks the length, difficulty and operand count of a block", () => {
+    expect(
+      validateProtocol(
+        withBlock({
+          exercises: 0,
+          minutes: Number.NaN,
+          difficulty: "hard" as ProtocolBlock["difficulty"],
+          operandCount: 7,
+        }),
+      ),
+    ).toEqual([
+      'Block 1: "exercises" must be a positive number.',
+      'Block 1: "minutes" must be a positive number.',
+      'Block 1: "difficulty" must be one of random, progressive, adaptive, fixed.',
+      'Block 1: "operandCount" must be between 2 and 6.',
+    ]);
+  });
+
+  it("checks the timer overrides", () => {
+    expect(
+      validateProtocol(
+        withBlock({
+          timer: {
+            minDurationMs: 5_000,
+            maxDurationMs: 2_000,
+            referenceSolves: 1.5,
+            pauseWhenHidden: "yes" as unknown as boolean,
+          },
+        }),
+      ),
+    ).toEqual([
+      'Block 1: "timer.minDurationMs" must not exceed "timer.maxDurationMs".',
+      'Block 1: "timer.referenceSolves" must be a whole number of 1 or more.',
+      'Block 1: "timer.pauseWhenHidden" must be true or false.',
+    ]);
+  });
+
+  it("checks the evaluation schedule", () => {
+    expect(
+      validateProtocol(
+        withBlock({
+          evaluationSchedule: {
+            promptProbability: 1.5,
+            scopeWeights: { "this task": -1, "the last hour": 1 } as Record<
+              string,
+              number
+            >,
+          },
+        }),
+      ),
+    ).toEqual([
+      'Block 1: "evaluationSchedule.promptProbability" must be between 0 and 1.',
+      'Block 1: the weight of "this task" must be zero or more.',
+      'Block 1: "evaluationSchedule.scopeWeights" has unknown scope "the last hour".',
+    ]);
+  });
+
+  it("checks the fixed difficulty", () => {
+    expect(
+      validateProtocol(
+        withBlock({
+          fixedDifficulty: {
+            target: 120,
+            tolerance: 0,
+            carries: { min: 3, max: 1 },
+            zeros: { min: -1 },
+          },
+        }),
+      ),
+    ).toEqual([
+      'Block 1: "fixedDifficulty.target" must be between 0 and 100.',
+      'Block 1: "fixedDifficulty.tolerance" must be between 1 and 100.',
+      'Block 1: "fixedDifficulty.carries.min" must not exceed its "max".',
+      'Block 1: "fixedDifficulty.zeros.min" must be a whole number of 0 or more.',
+    ]);
+  });
+});
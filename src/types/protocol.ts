@@ -0,0 +1,377 @@
+import type { EvaluationScope, ExerciseOperation } from "@/db";
+import type { CountRange, FixedDifficultySettings } from "@/types/difficulty";
+import { EVALUATION_SCOPES } from "@/types/evaluation";
+import {
+  TIMER_COMPLETION_POLICIES,
+  TIMER_DURATION_POLICIES,
+  type TimerSettings,
+} from "@/types/timer";
+import { OPERATION_IDS } from "@/utils/operations";
+import { MAX_OPERAND_COUNT, MIN_OPERAND_COUNT } from "@/utils/exercise";
+
+/** Practice blocks run self-paced and are tagged so analyses can drop them */
+export type ProtocolBlockKind = "practice" | "self-paced" | "timed" | "break";
+export type ProtocolDifficulty =
+  | "random"
+  | "progressive"
+  | "adaptive"
+  | "fixed";
+
+export const PROTOCOL_BLOCK_KINDS: ProtocolBlockKind[] = [
+  "practice",
+  "self-paced",
+  "timed",
+  "break",
+];
+
+export const PROTOCOL_DIFFICULTIES: ProtocolDifficulty[] = [
+  "random",
+  "progressive",
+  "adaptive",
+  "fixed",
+];
+
+export interface ProtocolBlock {
+  /** Unique within the protocol, stored on every exercise and event */
+  id: string;
+  kind: ProtocolBlockKind;
+  label?: string;
+  /** Shown before the block starts, or during a break */
+  instructions?: string;
+  /** The block ends after this many exercises or minutes, whichever comes first */
+  exercises?: number;
+  minutes?: number;
+  /** Settings below override the user's own for the duration of the block */
+  difficulty?: ProtocolDifficulty;
+  fixedDifficulty?: Partial<FixedDifficultySettings>;
+  operations?: ExerciseOperation[];
+  operandCount?: number;
+  evaluationSchedule?: {
+    promptProbability?: number;
+    scopeWeights?: Partial<Record<EvaluationScope, number>>;
+  };
+  timer?: Partial<TimerSettings>;
+}
+
+export interface ExperimentProtocol {
+  name: string;
+  /** Seconds of 3-2-1 countdown before every exercise block */
+  countdownSeconds: number;
+  blocks: ProtocolBlock[];
+}
+
+export const DEFAULT_PROTOCOL: ExperimentProtocol = {
+  name: "Example protocol",
+  countdownSeconds: 3,
+  blocks: [
+    {
+      id: "practice",
+      kind: "practice",
+      label: "Practice",
+      instructions: "Get used to the task. These answers are not analysed.",
+      exercises: 10,
+      difficulty: "random",
+      evaluationSchedule: { promptProbability: 0 },
+    },
+    {
+      id: "self-paced",
+      kind: "self-paced",
+      label: "Self-paced block",
+      instructions: "Answer as quickly and accurately as you can.",
+      minutes: 5,
+      difficulty: "adaptive",
+    },
+    {
+      id: "break",
+      kind: "break",
+      label: "Break",
+      instructions: "Take a short break. The next block starts afterwards.",
+      minutes: 2,
+    },
+    {
+      id: "timed",
+      kind: "timed",
+      label: "Timed block",
+      instructions: "Each exercise now has a time limit.",
+      exercises: 40,
+      difficulty: "fixed",
+      fixedDifficulty: { target: 50, tolerance: 5 },
+    },
+  ],
+};
+
+function isFiniteNumber(value: unknown): value is number {
+  return typeof value === "number" && Number.isFinite(value);
+}
+
+function isPositive(value: unknown) {
+  return isFiniteNumber(value) && value > 0;
+}
+
+function isObject(value: unknown): value is Record<string, unknown> {
+  return typeof value === "object" && value !== null && !Array.isArray(value);
+}
+
+function validateTimer(where: string, timer: unknown, errors: string[]) {
+  if (!isObject(timer)) {
+    errors.push(`${where}: "timer" must be an object.`);
+    return;
+  }
+  const settings = timer as Partial<TimerSettings>;
+  if (
+    settings.durationPolicy !== undefined &&
+    !TIMER_DURATION_POLICIES.includes(settings.durationPolicy)
+  ) {
+    errors.push(
+      `${where}: "timer.durationPolicy" must be one of ${TIMER_DURATION_POLICIES.join(", ")}.`,
+    );
+  }
+  if (
+    settings.completionPolicy !== undefined &&
+    !TIMER_COMPLETION_POLICIES.includes(settings.completionPolicy)
+  ) {
+    errors.push(
+      `${where}: "timer.completionPolicy" must be one of ${TIMER_COMPLETION_POLICIES.join(", ")}.`,
+    );
+  }
+  for (const field of [
+    "fixedDurationMs",
+    "minDurationMs",
+    "maxDurationMs",
+    "medianMultiplier",
+  ] as const) {
+    if (settings[field] !== undefined && !isPositive(settings[field])) {
+      errors.push(`${where}: "timer.${field}" must be a positive number.`);
+    }
+  }
+  if (
+    isPositive(settings.minDurationMs) &&
+    isPositive(settings.maxDurationMs) &&
+    settings.minDurationMs! > settings.maxDurationMs!
+  ) {
+    errors.push(
+      `${where}: "timer.minDurationMs" must not exceed "timer.maxDurationMs".`,
+    );
+  }
+  if (
+    settings.referenceSolves !== undefined &&
+    (!Number.isInteger(settings.referenceSolves) ||
+      settings.referenceSolves < 1)
+  ) {
+    errors.push(
+      `${where}: "timer.referenceSolves" must be a whole number of 1 or more.`,
+    );
+  }
+  if (
+    settings.pauseWhenHidden !== undefined &&
+    typeof settings.pauseWhenHidden !== "boolean"
+  ) {
+    errors.push(`${where}: "timer.pauseWhenHidden" must be true or false.`);
+  }
+}
+
+function validateEvaluationSchedule(
+  where: string,
+  schedule: unknown,
+  errors: string[],
+) {
+  if (!isObject(schedule)) {
+    errors.push(`${where}: "evaluationSchedule" must be an object.`);
+    return;
+  }
+  const { promptProbability, scopeWeights } = schedule;
+  if (
+    promptProbability !== undefined &&
+    (!isFiniteNumber(promptProbability) ||
+      promptProbability < 0 ||
+      promptProbability > 1)
+  ) {
+    errors.push(
+      `${where}: "evaluationSchedule.promptProbability" must be between 0 and 1.`,
+    );
+  }
+  if (scopeWeights === undefined) return;
+  if (!isObject(scopeWeights)) {
+    errors.push(
+      `${where}: "evaluationSchedule.scopeWeights" must be an object.`,
+    );
+    return;
+  }
+  for (const [scope, weight] of Object.entries(scopeWeights)) {
+    if (!EVALUATION_SCOPES.includes(scope as EvaluationScope)) {
+      errors.push(
+        `${where}: "evaluationSchedule.scopeWeights" has unknown scope "${scope}".`,
+      );
+    } else if (!isFiniteNumber(weight) || weight < 0) {
+      errors.push(`${where}: the weight of "${scope}" must be zero or more.`);
+    }
+  }
+}
+
+function validateCountRange(
+  where: string,
+  field: string,
+  range: unknown,
+  errors: string[],
+) {
+  if (!isObject(range)) {
+    errors.push(`${where}: "fixedDifficulty.${field}" must be an object.`);
+    return;
+  }
+  const { min, max } = range as CountRange;
+  for (const [bound, value] of [
+    ["min", min],
+    ["max", max],
+  ] as const) {
+    if (value !== undefined && (!Number.isInteger(value) || value < 0)) {
+      errors.push(
+        `${where}: "fixedDifficulty.${field}.${bound}" must be a whole number of 0 or more.`,
+      );
+    }
+  }
+  if (isFiniteNumber(min) && isFiniteNumber(max) && min > max) {
+    errors.push(
+      `${where}: "fixedDifficulty.${field}.min" must not exceed its "max".`,
+    );
+  }
+}
+
+// The targeted generator works on the normalized 0-100 difficulty scale
+function validateFixedDifficulty(
+  where: string,
+  fixedDifficulty: unknown,
+  errors: string[],
+) {
+  if (!isObject(fixedDifficulty)) {
+    errors.push(`${where}: "fixedDifficulty" must be an object.`);
+    return;
+  }
+  const { enabled, target, tolerance, carries, zeros } =
+    fixedDifficulty as Partial<FixedDifficultySettings>;
+  if (enabled !== undefined && typeof enabled !== "boolean") {
+    errors.push(`${where}: "fixedDifficulty.enabled" must be true or false.`);
+  }
+  if (
+    target !== undefined &&
+    (!isFiniteNumber(target) || target < 0 || target > 100)
+  ) {
+    errors.push(
+      `${where}: "fixedDifficulty.target" must be between 0 and 100.`,
+    );
+  }
+  if (
+    tolerance !== undefined &&
+    (!isFiniteNumber(tolerance) || tolerance < 1 || tolerance > 100)
+  ) {
+    errors.push(
+      `${where}: "fixedDifficulty.tolerance" must be between 1 and 100.`,
+    );
+  }
+  if (carries !== undefined) {
+    validateCountRange(where, "carries", carries, errors);
+  }
+  if (zeros !== undefined) validateCountRange(where, "zeros", zeros, errors);
+}
+
+/**
+ * Validate a protocol definition, returning a list of problems. An empty list
+ * means the definition can be run.
+ */
+export function validateProtocol(value: unknown): string[] {
+  if (typeof value !== "object" || value === null || Array.isArray(value)) {
+    return ["The protocol must be a JSON object."];
+  }
+
+  const protocol = value as Partial<ExperimentProtocol>;
+  const errors: string[] = [];
+
+  if (typeof protocol.name !== "string" || !protocol.name.trim()) {
+    errors.push('"name" is required.');
+  }
+  if (
+    !isFiniteNumber(protocol.countdownSeconds) ||
+    protocol.countdownSeconds < 0
+  ) {
+    errors.push('"countdownSeconds" must be zero or more.');
+  }
+  if (!Array.isArray(protocol.blocks) || protocol.blocks.length === 0) {
+    errors.push('"blocks" must list at least one block.');
+    return errors;
+  }
+
+  const ids = new Set<string>();
+  protocol.blocks.forEach((block: Partial<ProtocolBlock>, index) => {
+    const where = `Block ${index + 1}`;
+    if (typeof block.id !== "string" || !block.id.trim()) {
+      errors.push(`${where}: "id" is required.`);
+    } else if (ids.has(block.id)) {
+      errors.push(`${where}: id "${block.id}" is used twice.`);
+    } else {
+      ids.add(block.id);
+    }
+
+    if (!PROTOCOL_BLOCK_KINDS.includes(block.kind as ProtocolBlockKind)) {
+      errors.push(
+        `${where}: "kind" must be one of ${PROTOCOL_BLOCK_KINDS.join(", ")}.`,
+      );
+    }
+    if (block.exercises !== undefined && !isPositive(block.exercises)) {
+      errors.push(`${where}: "exercises" must be a positive number.`);
+    }
+    if (block.minutes !== undefined && !isPositive(block.minutes)) {
+      errors.push(`${where}: "minutes" must be a positive number.`);
+    }
+    if (
+      block.kind !== "break" &&
+      block.exercises === undefined &&
+      block.minutes === undefined
+    ) {
+      errors.push(
+        `${where}: set "exercises" or "minutes" so the block can end.`,
+      );
+    }
+    if (
+      block.difficulty !== undefined &&
+      !PROTOCOL_DIFFICULTIES.includes(block.difficulty)
+    ) {
+      errors.push(
+        `${where}: "difficulty" must be one of ${PROTOCOL_DIFFICULTIES.join(", ")}.`,
+      );
+    }
+    if (
+      block.operations !== undefined &&
+      (!Array.isArray(block.operations) ||
+        block.operations.length === 0 ||
+        block.operations.some(
+          (operation) => !OPERATION_IDS.includes(operation),
+        ))
+    ) {
+      errors.push(
+        `${where}: "operations" must list one or more of ${OPERATION_IDS.join(", ")}.`,
+      );
+    }
+    if (
+      block.operandCount !== undefined &&
+      (!Number.isInteger(block.operandCount) ||
+        block.operandCount < MIN_OPERAND_COUNT ||
+        block.operandCount > MAX_OPERAND_COUNT)
+    ) {
+      errors.push(
+        `${where}: "operandCount" must be between ${MIN_OPERAND_COUNT} and ${MAX_OPERAND_COUNT}.`,
+      );
+    }
+    if (block.timer !== undefined) validateTimer(where, block.timer, errors);
+    if (block.evaluationSchedule !== undefined) {
+      validateEvaluationSchedule(where, block.evaluationSchedule, errors);
+    }
+    if (block.fixedDifficulty !== undefined) {
+      validateFixedDifficulty(where, block.fixedDifficulty, errors);
+    }
+  });
+
+  return errors;
+}
+
+export function getBlockLabel(block: ProtocolBlock, index: number) {
+  return block.label?.trim() || `Block ${index + 1} (${block.kind})`;
+}
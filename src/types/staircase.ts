@@ -0,0 +1,35 @@
+export type StaircaseDirection = "up" | "down";
+
+export interface StaircaseState {
+  level: number;
+  consecutiveSuccesses: number;
+  reversals: number;
+  lastDirection: StaircaseDirection | null;
+  trials: number;
+}
+
+export const STAIRCASE_MIN_LEVEL = 1;
+export const STAIRCASE_MAX_LEVEL = 20;
+
+export const DEFAULT_STAIRCASE_STATE: StaircaseState = {
+  level: 3,
+  consecutiveSuccesses: 0,
+  reversals: 0,
+  lastDirection: null,
+  trials: 0,
+};
+
+export function mergeStaircaseState(
+  overrides?: Partial<StaircaseState> | null,
+): StaircaseState {
+  return {
+    level: overrides?.level ?? DEFAULT_STAIRCASE_STATE.level,
+    consecutiveSuccesses:
+      overrides?.consecutiveSuccesses ??
+      DEFAULT_STAIRCASE_STATE.consecutiveSuccesses,
+    reversals: overrides?.reversals ?? DEFAULT_STAIRCASE_STATE.reversals,
+    lastDirection:
+      overrides?.lastDirection ?? DEFAULT_STAIRCASE_STATE.lastDirection,
+    trials: overrides?.trials ?? DEFAULT_STAIRCASE_STATE.trials,
+  };
+}
@@ -0,0 +1,65 @@
+export type TimerDurationPolicy =
+  | "fixed"
+  | "difficulty-scaled"
+  | "adaptive-median";
+export type TimerCompletionPolicy = "advance-on-correct" | "wait-full";
+
+export const TIMER_DURATION_POLICIES: TimerDurationPolicy[] = [
+  "fixed",
+  "difficulty-scaled",
+  "adaptive-median",
+];
+
+export const TIMER_COMPLETION_POLICIES: TimerCompletionPolicy[] = [
+  "wait-full",
+  "advance-on-correct",
+];
+
+export interface TimerSettings {
+  durationPolicy: TimerDurationPolicy;
+  completionPolicy: TimerCompletionPolicy;
+  /** Duration for the fixed policy and fallback while there is too little history */
+  fixedDurationMs: number;
+  /** Bounds for the difficulty-scaled and adaptive-median policies */
+  minDurationMs: number;
+  maxDurationMs: number;
+  /** Deadline as a multiple of the median of recent solve times */
+  medianMultiplier: number;
+  referenceSolves: number;
+  /** Stop the clock while the page is hidden so a tab switch doesn't time out */
+  pauseWhenHidden: boolean;
+}
+
+export const DEFAULT_TIMER_SETTINGS: TimerSettings = {
+  durationPolicy: "fixed",
+  completionPolicy: "wait-full",
+  fixedDurationMs: 5000,
+  minDurationMs: 3000,
+  maxDurationMs: 15000,
+  medianMultiplier: 1.5,
+  referenceSolves: 20,
+  pauseWhenHidden: false,
+};
+
+export function mergeTimerSettings(
+  overrides?: Partial<TimerSettings> | null,
+): TimerSettings {
+  return {
+    durationPolicy:
+      overrides?.durationPolicy ?? DEFAULT_TIMER_SETTINGS.durationPolicy,
+    completionPolicy:
+      overrides?.completionPolicy ?? DEFAULT_TIMER_SETTINGS.completionPolicy,
+    fixedDurationMs:
+      overrides?.fixedDurationMs ?? DEFAULT_TIMER_SETTINGS.fixedDurationMs,
+    minDurationMs:
+      overrides?.minDurationMs ?? DEFAULT_TIMER_SETTINGS.minDurationMs,
+    maxDurationMs:
+      overrides?.maxDurationMs ?? DEFAULT_TIMER_SETTINGS.maxDurationMs,
+    medianMultiplier:
+      overrides?.medianMultiplier ?? DEFAULT_TIMER_SETTINGS.medianMultiplier,
+    referenceSolves:
+      overrides?.referenceSolves ?? DEFAULT_TIMER_SETTINGS.referenceSolves,
+    pauseWhenHidden:
+      overrides?.pauseWhenHidden ?? DEFAULT_TIMER_SETTINGS.pauseWhenHidden,
+  };
+}
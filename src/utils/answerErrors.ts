@@ -0,0 +1,74 @@
+import type { AnswerErrorType, ExerciseRecord } from "@/db";
+import { getOperation } from "@/utils/operations";
+
+export const ANSWER_ERROR_TYPES: AnswerErrorType[] = [
+  "off-by-carry",
+  "digit-transposition",
+  "off-by-ten",
+  "other",
+];
+
+function sortedDigits(value: number) {
+  return String(Math.abs(value)).split("").sort().join("");
+}
+
+/**
+ * Whether a difference is made of distinct powers of ten from 10 upwards
+ * (e.g. 10, 100, 110), returning how many there are
+ */
+function countPowersOfTen(difference: number) {
+  const digits = String(Math.abs(difference));
+  if (!/^[01]+0$/.test(digits)) return 0;
+  return digits.split("").filter((digit) => digit === "1").length;
+}
+
+/**
+ * Classify a wrong answer. A dropped or extra carry (borrow for subtraction)
+ * shifts the result by a power of ten at the column it belonged to, so
+ * differences of up to as many powers of ten as the exercise has carries
+ * count as off-by-carry; the same shift on an exercise without carries is
+ * reported as off-by-ten.
+ */
+export function classifyAnswerError(
+  exercise: Pick<ExerciseRecord, "operands" | "operation" | "answer">,
+  submitted: number,
+): AnswerErrorType {
+  const { answer } = exercise;
+  const difference = submitted - answer;
+
+  if (
+    String(submitted).length === String(answer).length &&
+    sortedDigits(submitted) === sortedDigits(answer)
+  ) {
+    return "digit-transposition";
+  }
+
+  const shifts = countPowersOfTen(difference);
+  if (shifts > 0) {
+    const carries = getOperation(exercise.operation).countCarries(
+      exercise.operands,
+    );
+    if (carries >= shifts) return "off-by-carry";
+    if (shifts === 1) return "off-by-ten";
+  }
+
+  return "other";
+}
+
+/**
+ * Binary correctness used by the correlation charts: the explicit result of a
+ * submitted answer when there is one, otherwise inferred from whether the
+ * answer was typed without extra keystrokes
+ */
+export function getCorrectnessOutcome(exercise: ExerciseRecord): 0 | 1 | null {
+  if (exercise.isCorrect !== undefined) {
+    return exercise.isCorrect ? 1 : 0;
+  }
+  if (exercise.keystrokeCount === undefined) return null;
+
+  const optimal = exercise.answer.toString().length;
+  const efficiency = (exercise.keystrokeCount / optimal) * 100;
+  if (efficiency < 100 || efficiency > 500) return null;
+
+  return efficiency === 100 ? 1 : 0;
+}
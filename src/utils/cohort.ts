@@ -0,0 +1,222 @@
+import type { ExerciseMode } from "@/db";
+import type { DataBundle } from "@/db/dataBundle";
+import { useDifficultyCalculation } from "@/composables/useDifficultyCalculation";
+import type { DataPoint } from "@/composables/useOutlierDetection";
+import { mergeDifficultyWeights } from "@/types/difficulty";
+import { getCorrectnessOutcome } from "@/utils/answerErrors";
+import { getSolveTimeMs } from "@/utils/timing";
+
+/** The records the analysis reads, from the database or a bundle */
+export type CohortData = Pick<
+  DataBundle,
+  "settings" | "exercises" | "evaluations"
+>;
+
+export interface CohortParticipant {
+  /** Unique across local users and loaded bundles */
+  key: string;
+  name: string;
+  source: "local" | "bundle";
+  data: CohortData;
+}
+
+/** One exercise of one participant, the row of the combined long-format CSV */
+export interface CohortObservation {
+  participant: string;
+  source: CohortParticipant["source"];
+  exerciseId?: string;
+  sessionId?: string;
+  mode: ExerciseMode;
+  operation: string;
+  operands: number[];
+  answer: number;
+  displayedAt: number;
+  solveTimeS: number | null;
+  timedOut: boolean;
+  correct: 0 | 1 | null;
+  carryovers: number;
+  predictedDifficulty: number;
+  clRating: number | null;
+}
+
+type ObservationMetric =
+  | "predictedDifficulty"
+  | "solveTimeS"
+  | "clRating"
+  | "correct";
+
+export interface CohortCorrelation {
+  id: string;
+  label: string;
+  x: ObservationMetric;
+  y: ObservationMetric;
+}
+
+export const COHORT_CORRELATIONS: CohortCorrelation[] = [
+  {
+    id: "difficulty-time",
+    label: "Difficulty vs solve time",
+    x: "predictedDifficulty",
+    y: "solveTimeS",
+  },
+  {
+    id: "difficulty-rating",
+    label: "Difficulty vs CL rating",
+    x: "predictedDifficulty",
+    y: "clRating",
+  },
+  {
+    id: "rating-time",
+    label: "CL rating vs solve time",
+    x: "clRating",
+    y: "solveTimeS",
+  },
+  {
+    id: "rating-correct",
+    label: "CL rating vs correctness",
+    x: "clRating",
+    y: "correct",
+  },
+];
+
+export const COHORT_METRIC_LABELS: Record<ObservationMetric, string> = {
+  predictedDifficulty: "Predicted Difficulty (0-100)",
+  solveTimeS: "Solve Time (seconds)",
+  clRating: "CL Rating (1-9)",
+  correct: "Correct (0/1)",
+};
+
+/**
+ * Flatten a participant's exercises into observations. Predicted difficulty
+ * uses the participant's own weights and is normalised over their own
+ * exercises, so it is comparable within but not across participants.
+ */
+export function buildCohortObservations(
+  participant: CohortParticipant,
+  modeFilter: ExerciseMode | "all",
+): CohortObservation[] {
+  const {
+    calculateDifficultyScore,
+    calculateDifficultyRange,
+    countCarryovers,
+    normalizeDifficulty,
+  } = useDifficultyCalculation();
+  const { data } = participant;
+  const weights = mergeDifficultyWeights(data.settings?.difficultyWeights);
+  const range = calculateDifficultyRange(data.exercises, weights, modeFilter);
+
+  const ratings = new Map<string, number[]>();
+  data.evaluations.forEach((evaluation) => {
+    if (evaluation.rating < 1 || evaluation.rating > 9) return;
+    evaluation.exerciseIds.forEach((exerciseId) => {
+      if (!ratings.has(exerciseId)) ratings.set(exerciseId, []);
+      ratings.get(exerciseId)!.push(evaluation.rating);
+    });
+  });
+
+  return data.exercises
+    .filter((ex) => modeFilter === "all" || ex.mode === modeFilter)
+    .map((ex) => {
+      const exerciseRatings =
+        ex.id !== undefined ? ratings.get(ex.id) : undefined;
+      const duration = ex.solvedAt ? getSolveTimeMs(ex)! / 1000 : null;
+
+      return {
+        participant: participant.name,
+        source: participant.source,
+        exerciseId: ex.id,
+        sessionId: ex.sessionId,
+        mode: ex.mode,
+        operation: ex.operation,
+        operands: ex.operands,
+        answer: ex.answer,
+        displayedAt: ex.displayedAt,
+        // Same plausibility window as the Stats charts
+        solveTimeS:
+          duration !== null && duration >= 0.5 && duration <= 120
+            ? duration
+            : null,
+        timedOut: !!ex.timedOut,
+        correct: getCorrectnessOutcome(ex),
+        carryovers: countCarryovers(ex.operands, ex.operation),
+        predictedDifficulty: normalizeDifficulty(
+          calculateDifficultyScore(ex, weights),
+          range,
+        ),
+        clRating: exerciseRatings
+          ? exerciseRatings.reduce((sum, r) => sum + r, 0) /
+            exerciseRatings.length
+          : null,
+      };
+    });
+}
+
+export function getCorrelationPoints(
+  observations: CohortObservation[],
+  correlation: CohortCorrelation,
+): DataPoint[] {
+  const points: DataPoint[] = [];
+  observations.forEach((observation) => {
+    const x = observation[correlation.x];
+    const y = observation[correlation.y];
+    if (
+      x === null ||
+      y === null ||
+      !Number.isFinite(x) ||
+      !Number.isFinite(y)
+    ) {
+      return;
+    }
+    // Bundle IDs don't exist locally, so only local points can be replayed
+    points.push({
+      x,
+      y,
+      isOutlier: false,
+      exerciseId:
+        observation.source === "local" ? observation.exerciseId : undefined,
+    });
+  });
+  return points;
+}
+
+export const COHORT_CSV_HEADERS = [
+  "participant",
+  "source",
+  "exerciseId",
+  "sessionId",
+  "mode",
+  "operation",
+  "operands",
+  "answer",
+  "displayedAt",
+  "displayedAt_ISO",
+  "solveTime_s",
+  "timedOut",
+  "correct",
+  "carryoverCount",
+  "predictedDifficulty",
+  "avgCLRating",
+];
+
+export function toCohortCSVRow(observation: CohortObservation) {
+  return [
+    observation.participant,
+    observation.source,
+    observation.exerciseId ?? "",
+    observation.sessionId ?? "",
+    observation.mode,
+    observation.operation,
+    observation.operands.join(";"),
+    observation.answer,
+    observation.displayedAt,
+    new Date(observation.displayedAt).toISOString(),
+    observation.solveTimeS?.toFixed(3) ?? "",
+    observation.timedOut,
+    observation.correct ?? "",
+    observation.carryovers,
+    Number.isFinite(observation.predictedDifficulty)
+      ? observation.predictedDifficulty.toFixed(1)
+      : "",
+    observation.clRating?.toFixed(1) ?? "",
+  ];
+}
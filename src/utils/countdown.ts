@@ -0,0 +1,19 @@
+export const COUNTDOWN_TICK_MS = 1000;
+
+/**
+ * Count down from the given number of seconds, reporting each remaining
+ * second. Resolves to false when cancelled between ticks.
+ */
+export async function runCountdown(
+  seconds: number,
+  onTick: (remaining: number) => void,
+  isCancelled: () => boolean = () => false,
+) {
+  for (let remaining = Math.round(seconds); remaining > 0; remaining--) {
+    onTick(remaining);
+    await new Promise((resolve) => setTimeout(resolve, COUNTDOWN_TICK_MS));
+    if (isCancelled()) return false;
+  }
+  onTick(0);
+  return true;
+}
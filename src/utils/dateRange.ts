@@ -0,0 +1,37 @@
+/** Inclusive range of local dates as YYYY-MM-DD; empty strings leave it open */
+export interface DateRange {
+  from: string;
+  to: string;
+}
+
+export function toDayKey(timestamp: number) {
+  const date = new Date(timestamp);
+  const month = String(date.getMonth() + 1).padStart(2, "0");
+  const day = String(date.getDate()).padStart(2, "0");
+  return `${date.getFullYear()}-${month}-${day}`;
+}
+
+function parseDayKey(day: string) {
+  const [year, month, date] = day.split("-").map(Number);
+  return new Date(year!, month! - 1, date!);
+}
+
+/** First and last millisecond of a local day */
+export function getDayBounds(day: string): [number, number] {
+  const start = parseDayKey(day);
+  const end = new Date(start);
+  end.setDate(end.getDate() + 1);
+  return [start.getTime(), end.getTime() - 1];
+}
+
+/** Timestamp bounds of a date range, open ends becoming ±Infinity */
+export function toTimestampRange(range: DateRange): [number, number] {
+  return [
+    range.from ? getDayBounds(range.from)[0] : -Infinity,
+    range.to ? getDayBounds(range.to)[1] : Infinity,
+  ];
+}
+
+export function isDayInRange(day: string, range: DateRange) {
+  return (!range.from || day >= range.from) && (!range.to || day <= range.to);
+}
@@ -0,0 +1,187 @@
+import type { EvaluationRecord, ExerciseMode, ExerciseRecord } from "@/db";
+import type { DifficultyWeights } from "@/types/difficulty";
+import { useDifficultyCalculation } from "@/composables/useDifficultyCalculation";
+import {
+  crossValidate,
+  fitLinearModel,
+  type CrossValidationResult,
+  type DesignMatrix,
+  type LinearModel,
+} from "@/utils/regression";
+import { getSolveTimeMs } from "@/utils/timing";
+
+type FeatureExercise = Pick<
+  ExerciseRecord,
+  "operands" | "operation" | "answer"
+>;
+
+export interface DifficultyFeature {
+  id: string;
+  label: string;
+  compute: (exercise: FeatureExercise) => number;
+}
+
+export type ModelOutcome = "time" | "rating";
+
+export const MODEL_OUTCOME_LABELS: Record<ModelOutcome, string> = {
+  time: "Solve time (s)",
+  rating: "CL rating (1-9)",
+};
+
+function digitsOf(value: number) {
+  return String(Math.abs(value))
+    .split("")
+    .map((digit) => parseInt(digit, 10));
+}
+
+const { countTotalDigits, countCarryovers, calculateDifficultyScore } =
+  useDifficultyCalculation();
+
+/** Predictors available to the regression model; add entries to extend it */
+export const DIFFICULTY_FEATURES: DifficultyFeature[] = [
+  {
+    id: "digits",
+    label: "Digits",
+    compute: (ex) => countTotalDigits(ex.operands),
+  },
+  {
+    id: "carries",
+    label: "Carries",
+    compute: (ex) => countCarryovers(ex.operands, ex.operation),
+  },
+  {
+    id: "zeros",
+    label: "Zeros",
+    compute: (ex) =>
+      ex.operands.reduce(
+        (sum, operand) => sum + digitsOf(operand).filter((d) => d === 0).length,
+        0,
+      ),
+  },
+  {
+    id: "magnitude",
+    label: "Operand magnitude (log10)",
+    compute: (ex) => Math.log10(Math.max(...ex.operands.map(Math.abs)) + 1),
+  },
+  {
+    id: "digitSum",
+    label: "Digit sum",
+    compute: (ex) =>
+      ex.operands.reduce(
+        (sum, operand) => sum + digitsOf(operand).reduce((a, b) => a + b, 0),
+        0,
+      ),
+  },
+  {
+    id: "answerLength",
+    label: "Answer length",
+    compute: (ex) => String(Math.abs(ex.answer)).length,
+  },
+];
+
+export interface ModelDataset {
+  exercises: ExerciseRecord[];
+  y: number[];
+}
+
+/**
+ * Observations for one outcome: plausible solve times (same 0.5–120 s window
+ * as the charts) or the average CL rating of each rated exercise
+ */
+export function buildModelDataset(
+  outcome: ModelOutcome,
+  exercises: ExerciseRecord[],
+  evaluations: EvaluationRecord[],
+  modeFilter: ExerciseMode | "all",
+): ModelDataset {
+  const filtered = exercises.filter(
+    (ex) => modeFilter === "all" || ex.mode === modeFilter,
+  );
+
+  if (outcome === "time") {
+    const rows = filtered.flatMap((ex) => {
+      if (!ex.solvedAt || ex.timedOut) return [];
+      const duration = getSolveTimeMs(ex)! / 1000;
+      return duration >= 0.5 && duration <= 120 ? [{ ex, y: duration }] : [];
+    });
+    return {
+      exercises: rows.map((row) => row.ex),
+      y: rows.map((row) => row.y),
+    };
+  }
+
+  const ratings = new Map<string, number[]>();
+  evaluations.forEach((evaluation) => {
+    if (modeFilter !== "all" && evaluation.mode !== modeFilter) return;
+    if (evaluation.rating < 1 || evaluation.rating > 9) return;
+    evaluation.exerciseIds.forEach((exerciseId) => {
+      if (!ratings.has(exerciseId)) ratings.set(exerciseId, []);
+      ratings.get(exerciseId)!.push(evaluation.rating);
+    });
+  });
+
+  const rows = filtered.flatMap((ex) => {
+    const exerciseRatings =
+      ex.id !== undefined ? ratings.get(ex.id) : undefined;
+    if (!exerciseRatings) return [];
+    return [
+      {
+        ex,
+        y:
+          exerciseRatings.reduce((sum, r) => sum + r, 0) /
+          exerciseRatings.length,
+      },
+    ];
+  });
+  return { exercises: rows.map((row) => row.ex), y: rows.map((row) => row.y) };
+}
+
+export function buildFeatureMatrix(
+  exercises: FeatureExercise[],
+  features: DifficultyFeature[] = DIFFICULTY_FEATURES,
+): DesignMatrix {
+  return exercises.map((ex) => features.map((feature) => feature.compute(ex)));
+}
+
+export interface ModelEvaluation {
+  id: "weights" | "ols" | "ridge";
+  label: string;
+  model: LinearModel | null;
+  crossValidation: CrossValidationResult;
+}
+
+/**
+ * Fit OLS and ridge models on the feature set and, for comparison, a simple
+ * regression on the weighted difficulty score, all scored with the same folds
+ */
+export function compareDifficultyModels(
+  dataset: ModelDataset,
+  weights: DifficultyWeights,
+  { ridge, folds }: { ridge: number; folds: number },
+): ModelEvaluation[] {
+  const X = buildFeatureMatrix(dataset.exercises);
+  const weightedX = dataset.exercises.map((ex) => [
+    calculateDifficultyScore(ex, weights),
+  ]);
+
+  return [
+    {
+      id: "weights",
+      label: "Current weights",
+      model: fitLinearModel(weightedX, dataset.y),
+      crossValidation: crossValidate(weightedX, dataset.y, { folds }),
+    },
+    {
+      id: "ols",
+      label: "OLS",
+      model: fitLinearModel(X, dataset.y),
+      crossValidation: crossValidate(X, dataset.y, { folds }),
+    },
+    {
+      id: "ridge",
+      label: `Ridge (λ = ${ridge})`,
+      model: fitLinearModel(X, dataset.y, ridge),
+      crossValidation: crossValidate(X, dataset.y, { folds, ridge }),
+    },
+  ];
+}
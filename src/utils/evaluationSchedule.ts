@@ -0,0 +1,69 @@
+import type { EvaluationScope } from "@/db";
+import {
+  EVALUATION_SCOPES,
+  EVALUATION_SCOPE_SIZES,
+  type EvaluationSchedule,
+} from "@/types/evaluation";
+
+export interface EvaluationSamplingDecision {
+  prompted: boolean;
+  promptRoll: number;
+  promptProbability: number;
+  scope: EvaluationScope | null;
+  scopeRoll: number | null;
+  requestedExerciseCount: number;
+}
+
+export function drawEvaluationScope(
+  scopeWeights: Record<EvaluationScope, number>,
+  roll: number,
+): EvaluationScope | null {
+  const candidates = EVALUATION_SCOPES.filter(
+    (scope) => scopeWeights[scope] > 0,
+  );
+  const total = candidates.reduce((sum, scope) => sum + scopeWeights[scope], 0);
+  if (total <= 0) return null;
+
+  // Walk the cumulative distribution until the roll falls inside a scope
+  let threshold = roll * total;
+  for (const scope of candidates) {
+    threshold -= scopeWeights[scope];
+    if (threshold < 0) return scope;
+  }
+
+  return candidates[candidates.length - 1] ?? null;
+}
+
+export function sampleEvaluation(
+  schedule: EvaluationSchedule,
+  random: () => number = Math.random,
+): EvaluationSamplingDecision {
+  const promptRoll = random();
+  const promptProbability = Math.min(
+    1,
+    Math.max(0, schedule.promptProbability),
+  );
+
+  if (promptRoll >= promptProbability) {
+    return {
+      prompted: false,
+      promptRoll,
+      promptProbability,
+      scope: null,
+      scopeRoll: null,
+      requestedExerciseCount: 0,
+    };
+  }
+
+  const scopeRoll = random();
+  const scope = drawEvaluationScope(schedule.scopeWeights, scopeRoll);
+
+  return {
+    prompted: scope !== null,
+    promptRoll,
+    promptProbability,
+    scope,
+    scopeRoll,
+    requestedExerciseCount: scope ? EVALUATION_SCOPE_SIZES[scope] : 0,
+  };
+}
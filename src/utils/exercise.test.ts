@@ -0,0 +1,32 @@
+import { describe, expect, it } from "vitest";
+import { DEFAULT_DIFFICULTY_WEIGHTS } from "@/types/difficulty";
+import { generateAtDifficulty } from "@/utils/exercise";
+
+const params = {
+  targetDifficulty: 50,
+  weights: DEFAULT_DIFFICULTY_WEIGHTS,
+  operation: "addition" as const,
+  operandCount: 2,
+  range: { min: 0, max: 10 },
+};
+
+describe("generateAtDifficulty", () => {
+  it("draws at least one candidate", () => {
+    for (const maxAttempts of [0, -3, Number.NaN]) {
+      const result = generateAtDifficulty({ ...params, maxAttempts });
+      expect(result.operands).toHaveLength(2);
+      expect(result.attempts).toBe(1);
+    }
+  });
+
+  it("settles for the closest candidate when the attempts run out", () => {
+    const result = generateAtDifficulty({
+      ...params,
+      tolerance: 0,
+      carries: { min: 99 },
+      maxAttempts: 5,
+    });
+    expect(result.withinTolerance).toBe(false);
+    expect(result.attempts).toBe(5);
+  });
+});
@@ -1,74 +1,241 @@
-export interface ExerciseOperands {
-  operandA: number;
-  operandB: number;
-}
+import type { ExerciseOperation } from "@/db";
+import {
+  useDifficultyCalculation,
+  type DifficultyRange,
+} from "@/composables/useDifficultyCalculation";
+import type { CountRange, DifficultyWeights } from "@/types/difficulty";
+import { getOperation } from "@/utils/operations";
+
+export const MIN_OPERAND_COUNT = 2;
+export const MAX_OPERAND_COUNT = 6;
 
 function randomInt(min: number, max: number) {
   return Math.floor(Math.random() * (max - min + 1)) + min;
 }
 
-function randomDigits(minDigits: number, maxDigits: number) {
-  const digits = randomInt(minDigits, maxDigits);
-  const lower = 10 ** (digits - 1);
-  const upper = 10 ** digits - 1;
-  if (digits === 1) {
-    return randomInt(1, 9);
-  }
-  return randomInt(lower, upper);
-}
-
 export interface ProgressiveDifficultyParams {
   solvedCount: number;
   maxDigits?: number;
+  operandCount?: number;
 }
 
 export function getProgressiveDifficulty(
   params: ProgressiveDifficultyParams,
-): { digitsA: number; digitsB: number } {
-  const { solvedCount, maxDigits = 4 } = params;
+): number[] {
+  const { solvedCount, maxDigits = 4, operandCount = 2 } = params;
 
   // Calculate progression level (increases every 3 exercises)
   const level = Math.floor(solvedCount / 3);
 
-  // Start with 1 digit for both operands
-  let digitsA = 1;
-  let digitsB = 1;
+  // Start with 1 digit for every operand
+  const digits = Array.from({ length: operandCount }, () => 1);
 
-  // Add digits alternately, capping at maxDigits
+  // Add digits round-robin, capping at maxDigits; when the operand whose turn
+  // it is is already capped, the next uncapped one grows instead
   for (let i = 0; i < level; i++) {
-    if (i % 2 === 0) {
-      // Even levels: increase first operand
-      if (digitsA < maxDigits) {
-        digitsA++;
-      } else if (digitsB < maxDigits) {
-        digitsB++;
-      }
-    } else {
-      // Odd levels: increase second operand
-      if (digitsB < maxDigits) {
-        digitsB++;
-      } else if (digitsA < maxDigits) {
-        digitsA++;
+    for (let offset = 0; offset < operandCount; offset++) {
+      const index = (i + offset) % operandCount;
+      if (digits[index]! < maxDigits) {
+        digits[index]!++;
+        break;
       }
     }
   }
 
-  return { digitsA, digitsB };
+  return digits;
 }
 
 export function generateExerciseOperands(
   progressive?: ProgressiveDifficultyParams,
-): ExerciseOperands {
+  operation: ExerciseOperation = "addition",
+  operandCount = progressive?.operandCount ?? 2,
+): number[] {
+  const definition = getOperation(operation);
+  const { maxDigits } = definition;
+  const capFor = (index: number) =>
+    index === 0 ? maxDigits.first : maxDigits.rest;
+
   if (progressive) {
-    const { digitsA, digitsB } = getProgressiveDifficulty(progressive);
-    return {
-      operandA: randomDigits(digitsA, digitsA),
-      operandB: randomDigits(digitsB, digitsB),
-    };
+    const digits = getProgressiveDifficulty({ ...progressive, operandCount });
+    return definition.generate(
+      digits.map((count, index) => Math.min(count, capFor(index))),
+    );
+  }
+
+  return definition.generate(
+    Array.from({ length: operandCount }, (_, index) =>
+      randomInt(1, capFor(index)),
+    ),
+  );
+}
+
+export interface DifficultyTargetParams {
+  /** Normalized predicted difficulty (0-100) to aim for */
+  targetDifficulty: number;
+  weights: DifficultyWeights;
+  operation: ExerciseOperation;
+  operandCount: number;
+  /** Accepted distance from the target on the 0-100 scale */
+  tolerance?: number;
+  carries?: CountRange;
+  zeros?: CountRange;
+  /** Raw score range mapped onto 0-100, estimated from random exercises when omitted */
+  range?: DifficultyRange;
+  /** Candidates to draw before settling for the closest; at least one is */
+  maxAttempts?: number;
+}
+
+export interface TargetedOperands {
+  operands: number[];
+  predictedDifficulty: number;
+  carries: number;
+  zeros: number;
+  /** Whether the operands satisfy both the tolerance band and the count constraints */
+  withinTolerance: boolean;
+  attempts: number;
+}
+
+const REFERENCE_SAMPLE_SIZE = 1000;
+const referenceRanges = new Map<string, DifficultyRange>();
+
+function isWithin(value: number, range: CountRange | undefined) {
+  return (
+    (range?.min === undefined || value >= range.min) &&
+    (range?.max === undefined || value <= range.max)
+  );
+}
+
+/**
+ * Raw score range of unconstrained random exercises for an operation and
+ * chain length, so a target of 0-100 means the same thing for every call
+ * with the same weights
+ */
+export function estimateDifficultyRange(
+  operation: ExerciseOperation,
+  operandCount: number,
+  weights: DifficultyWeights,
+): DifficultyRange {
+  const key = [
+    operation,
+    operandCount,
+    weights.digits,
+    weights.carryovers,
+    weights.zeros,
+  ].join(":");
+  const cached = referenceRanges.get(key);
+  if (cached) return cached;
+
+  const { calculateDifficultyScore } = useDifficultyCalculation();
+  const scores = Array.from({ length: REFERENCE_SAMPLE_SIZE }, () =>
+    calculateDifficultyScore(
+      {
+        operands: generateExerciseOperands(undefined, operation, operandCount),
+        operation,
+      },
+      weights,
+    ),
+  );
+  const min = Math.min(...scores);
+  const max = Math.max(...scores);
+  const range = min === max ? { min: min - 1, max: min + 1 } : { min, max };
+
+  referenceRanges.set(key, range);
+  return range;
+}
+
+/**
+ * Normalized predicted difficulty (0-100) of an exercise on the same reference
+ * scale the targeted generator uses
+ */
+export function predictDifficulty(
+  exercise: { operands: number[]; operation: ExerciseOperation },
+  weights: DifficultyWeights,
+) {
+  const { calculateDifficultyScore, normalizeDifficulty } =
+    useDifficultyCalculation();
+  return normalizeDifficulty(
+    calculateDifficultyScore(exercise, weights),
+    estimateDifficultyRange(
+      exercise.operation,
+      exercise.operands.length,
+      weights,
+    ),
+  );
+}
+
+/**
+ * Draw random exercises until one lands within the tolerance band around the
+ * target and satisfies the carry and zero constraints. When the attempts run
+ * out, the closest candidate is returned, preferring ones that at least meet
+ * the count constraints.
+ */
+export function generateAtDifficulty({
+  targetDifficulty,
+  weights,
+  operation,
+  operandCount,
+  tolerance = 5,
+  carries: carryRange,
+  zeros: zeroRange,
+  range = estimateDifficultyRange(operation, operandCount, weights),
+  maxAttempts = 2000,
+}: DifficultyTargetParams): TargetedOperands {
+  const {
+    calculateDifficultyScore,
+    countCarryovers,
+    countZeros,
+    normalizeDifficulty,
+  } = useDifficultyCalculation();
+
+  let best: TargetedOperands | undefined;
+  let bestDistance = Infinity;
+  let bestMeetsCounts = false;
+  // Without a single draw there would be no candidate to return
+  const attempts = maxAttempts >= 1 ? maxAttempts : 1;
+
+  for (let attempt = 1; attempt <= attempts; attempt++) {
+    const operands = generateExerciseOperands(
+      undefined,
+      operation,
+      operandCount,
+    );
+    const carries = countCarryovers(operands, operation);
+    const zeros = -countZeros(operands);
+    const predictedDifficulty = normalizeDifficulty(
+      calculateDifficultyScore({ operands, operation }, weights),
+      range,
+    );
+    const distance = Math.abs(predictedDifficulty - targetDifficulty);
+    const meetsCounts =
+      isWithin(carries, carryRange) && isWithin(zeros, zeroRange);
+
+    if (meetsCounts && distance <= tolerance) {
+      return {
+        operands,
+        predictedDifficulty,
+        carries,
+        zeros,
+        withinTolerance: true,
+        attempts: attempt,
+      };
+    }
+
+    const isBetter =
+      (meetsCounts && !bestMeetsCounts) ||
+      (meetsCounts === bestMeetsCounts && distance < bestDistance);
+    if (isBetter) {
+      best = {
+        operands,
+        predictedDifficulty,
+        carries,
+        zeros,
+        withinTolerance: false,
+        attempts: attempt,
+      };
+      bestDistance = distance;
+      bestMeetsCounts = meetsCounts;
+    }
   }
 
-  return {
-    operandA: randomDigits(1, 4),
-    operandB: randomDigits(1, 4),
-  };
+  return { ...best!, attempts };
 }
@@ -0,0 +1,119 @@
+import type { EventRecord, ExerciseRecord, KeystrokeMetrics } from "@/db";
+import { isEventOfType } from "@/db/eventSchema";
+import { median } from "@/utils/statistics";
+
+export const KEYSTROKE_METRICS_VERSION = 3;
+
+// Same keys MainView counts towards keystrokeCount
+function isCountedKey(key: string) {
+  return /^[0-9]$/.test(key) || key === "Backspace" || key === "Delete";
+}
+
+function mean(values: number[]) {
+  return values.reduce((sum, value) => sum + value, 0) / values.length;
+}
+
+function standardDeviation(values: number[]) {
+  const average = mean(values);
+  return Math.sqrt(
+    values.reduce((sum, value) => sum + (value - average) ** 2, 0) /
+      values.length,
+  );
+}
+
+/**
+ * Onset and key times on one clock: the precise one when the onset and every
+ * key have a precise time, else wall-clock times for exercises recorded
+ * before precise times existed
+ */
+function getKeyTimeline(
+  exercise: Pick<ExerciseRecord, "displayedAt" | "onsetAt" | "onsetPreciseAt">,
+  keydowns: EventRecord[],
+) {
+  if (
+    exercise.onsetPreciseAt !== undefined &&
+    keydowns.every((event) => event.preciseTimestamp !== undefined)
+  ) {
+    return {
+      onsetTime: exercise.onsetPreciseAt,
+      keyTimes: keydowns.map((event) => event.preciseTimestamp!),
+    };
+  }
+  return {
+    onsetTime: exercise.onsetAt ?? exercise.displayedAt,
+    keyTimes: keydowns.map((event) => event.timestamp),
+  };
+}
+
+/**
+ * Derive keystroke dynamics for one exercise from its own events, which must
+ * be sorted by timestamp
+ */
+export function computeKeystrokeMetrics(
+  exercise: Pick<
+    ExerciseRecord,
+    "answer" | "displayedAt" | "onsetAt" | "onsetPreciseAt"
+  >,
+  events: EventRecord[],
+): KeystrokeMetrics {
+  const keydowns = events.filter((event) =>
+    isEventOfType(event, "input_keydown"),
+  );
+  const { onsetTime, keyTimes } = getKeyTimeline(
+    exercise,
+    keydowns.filter((event) => isCountedKey(event.payload.key)),
+  );
+  const intervals = keyTimes
+    .slice(1)
+    .map((timestamp, index) => timestamp - keyTimes[index]!);
+
+  const backspaceCount = keydowns.filter(
+    (event) =>
+      event.payload.key === "Backspace" || event.payload.key === "Delete",
+  ).length;
+
+  // Values are "on track" while they can still grow into the answer, either
+  // typed from the left (prefix) or from the right (suffix)
+  const answer = String(exercise.answer);
+  let wrongPrefixCount = 0;
+  let wasOnTrack = true;
+  let appended = 0;
+  let prepended = 0;
+  let previous = "";
+
+  for (const event of events) {
+    if (!isEventOfType(event, "input_change")) continue;
+    const { value } = event.payload;
+
+    const onTrack =
+      value === "" || answer.startsWith(value) || answer.endsWith(value);
+    if (!onTrack && wasOnTrack) wrongPrefixCount++;
+    wasOnTrack = onTrack;
+
+    if (value.length > previous.length) {
+      if (value.startsWith(previous)) {
+        appended++;
+      } else if (value.endsWith(previous)) {
+        prepended++;
+      }
+    }
+    previous = value;
+  }
+
+  return {
+    version: KEYSTROKE_METRICS_VERSION,
+    timeToFirstKeyMs: keyTimes.length > 0 ? keyTimes[0]! - onsetTime : null,
+    interKeyIntervalCount: intervals.length,
+    interKeyMeanMs: intervals.length > 0 ? mean(intervals) : null,
+    interKeyMedianMs: median(intervals),
+    interKeySdMs: intervals.length > 0 ? standardDeviation(intervals) : null,
+    interKeyMaxMs: intervals.length > 0 ? Math.max(...intervals) : null,
+    backspaceCount,
+    wrongPrefixCount,
+    enteredLeftToRight: appended + prepended > 0 ? prepended === 0 : null,
+  };
+}
+
+export function hasCurrentKeystrokeMetrics(exercise: ExerciseRecord) {
+  return exercise.keystrokeMetrics?.version === KEYSTROKE_METRICS_VERSION;
+}
@@ -0,0 +1,192 @@
+import type { ExerciseMode, ExerciseRecord } from "@/db";
+import type { DifficultyWeights } from "@/types/difficulty";
+import { useDifficultyCalculation } from "@/composables/useDifficultyCalculation";
+import { getCorrectnessOutcome } from "@/utils/answerErrors";
+import { fitLinearModel } from "@/utils/regression";
+import { median } from "@/utils/statistics";
+import { getAnswerTimeMs, getSolveTimeMs } from "@/utils/timing";
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+export interface LearningCurvePoint {
+  exerciseId?: string;
+  /** 1-based position among the exercises shown, i.e. amount of practice */
+  index: number;
+  /** Calendar days since the first exercise, in local time */
+  day: number;
+  displayedAt: number;
+  /** Seconds to the correct answer, within the usual 0.5–120 s window */
+  timeS: number | null;
+  /** Correct answers per minute: 60 / time when correct, 0 when wrong */
+  efficiency: number | null;
+  difficulty: number;
+  /** Solve time minus the time predicted from the exercise's difficulty */
+  residualS: number | null;
+}
+
+export interface PowerLawFit {
+  /** Predicted solve time of the first exercise, in seconds */
+  a: number;
+  /** Learning rate: time falls with N^-b */
+  b: number;
+  bInterval: [number, number];
+  rSquared: number | null;
+  n: number;
+}
+
+export interface ResidualTrend {
+  /** Change in difficulty-adjusted time per e-fold increase in practice */
+  slope: number;
+  interval: [number, number];
+  n: number;
+}
+
+export interface LearningCurveDay {
+  day: number;
+  date: string;
+  count: number;
+  medianTimeS: number | null;
+  meanEfficiency: number | null;
+  meanResidualS: number | null;
+}
+
+function startOfDay(timestamp: number) {
+  const date = new Date(timestamp);
+  date.setHours(0, 0, 0, 0);
+  return date.getTime();
+}
+
+function mean(values: number[]) {
+  return values.length > 0
+    ? values.reduce((sum, value) => sum + value, 0) / values.length
+    : null;
+}
+
+/**
+ * Chronological learning-curve points for one mode. Every shown exercise
+ * counts towards the practice index; only answered ones carry a time.
+ */
+export function buildLearningCurve(
+  exercises: ExerciseRecord[],
+  weights: DifficultyWeights,
+  modeFilter: ExerciseMode | "all",
+): LearningCurvePoint[] {
+  const { calculateDifficultyScore } = useDifficultyCalculation();
+  const sorted = exercises
+    .filter((ex) => modeFilter === "all" || ex.mode === modeFilter)
+    .sort((a, b) => a.displayedAt - b.displayedAt);
+  if (sorted.length === 0) return [];
+
+  const firstDay = startOfDay(sorted[0]!.displayedAt);
+  const points: LearningCurvePoint[] = sorted.map((ex, i) => {
+    const solveMs = getSolveTimeMs(ex);
+    const solveS = solveMs !== undefined ? solveMs / 1000 : null;
+    const timeS =
+      solveS !== null && solveS >= 0.5 && solveS <= 120 ? solveS : null;
+
+    const answerMs = getAnswerTimeMs(ex);
+    const answerS = answerMs !== undefined ? answerMs / 1000 : null;
+    const correct = getCorrectnessOutcome(ex);
+    const efficiency =
+      answerS !== null && answerS >= 0.5 && answerS <= 120 && correct !== null
+        ? (correct * 60) / answerS
+        : null;
+
+    return {
+      exerciseId: ex.id,
+      index: i + 1,
+      day: Math.round((startOfDay(ex.displayedAt) - firstDay) / DAY_MS),
+      displayedAt: ex.displayedAt,
+      timeS,
+      efficiency,
+      difficulty: calculateDifficultyScore(ex, weights),
+      residualS: null,
+    };
+  });
+
+  // Residuals from a time ~ difficulty regression over the whole history
+  const timed = points.filter((point) => point.timeS !== null);
+  const model = fitLinearModel(
+    timed.map((point) => [point.difficulty]),
+    timed.map((point) => point.timeS!),
+  );
+  if (model) {
+    timed.forEach((point) => {
+      point.residualS =
+        point.timeS! -
+        (model.intercept + model.coefficients[0]! * point.difficulty);
+    });
+  }
+
+  return points;
+}
+
+/** Fit the power law of practice, time = a * N^-b, on log-log axes */
+export function fitPowerLaw(points: LearningCurvePoint[]): PowerLawFit | null {
+  const timed = points.filter((point) => point.timeS !== null);
+  const model = fitLinearModel(
+    timed.map((point) => [Math.log(point.index)]),
+    timed.map((point) => Math.log(point.timeS!)),
+  );
+  if (!model || model.constant[0]) return null;
+
+  const [low, high] = model.confidenceIntervals[0]!;
+  return {
+    a: Math.exp(model.intercept),
+    b: -model.coefficients[0]!,
+    bInterval: [-high, -low],
+    rSquared: model.rSquared,
+    n: model.n,
+  };
+}
+
+/** Trend of difficulty-adjusted residuals against log practice */
+export function fitResidualTrend(
+  points: LearningCurvePoint[],
+): ResidualTrend | null {
+  const withResidual = points.filter((point) => point.residualS !== null);
+  const model = fitLinearModel(
+    withResidual.map((point) => [Math.log(point.index)]),
+    withResidual.map((point) => point.residualS!),
+  );
+  if (!model || model.constant[0]) return null;
+
+  return {
+    slope: model.coefficients[0]!,
+    interval: model.confidenceIntervals[0]!,
+    n: model.n,
+  };
+}
+
+export function aggregateByDay(
+  points: LearningCurvePoint[],
+): LearningCurveDay[] {
+  const days = new Map<number, LearningCurvePoint[]>();
+  points.forEach((point) => {
+    if (!days.has(point.day)) days.set(point.day, []);
+    days.get(point.day)!.push(point);
+  });
+
+  return [...days.entries()]
+    .sort(([a], [b]) => a - b)
+    .map(([day, dayPoints]) => ({
+      day,
+      date: new Date(dayPoints[0]!.displayedAt).toLocaleDateString(),
+      count: dayPoints.length,
+      medianTimeS: median(
+        dayPoints.flatMap((point) =>
+          point.timeS !== null ? [point.timeS] : [],
+        ),
+      ),
+      meanEfficiency: mean(
+        dayPoints.flatMap((point) =>
+          point.efficiency !== null ? [point.efficiency] : [],
+        ),
+      ),
+      meanResidualS: mean(
+        dayPoints.flatMap((point) =>
+          point.residualS !== null ? [point.residualS] : [],
+        ),
+      ),
+    }));
+}
@@ -0,0 +1,118 @@
+import type { ExerciseRecord } from "@/db";
+import { useDifficultyCalculation } from "@/composables/useDifficultyCalculation";
+import { formatExercise } from "@/utils/operations";
+import { getSolveTimeMs } from "@/utils/timing";
+
+/** Exercise filters of the log explorer; null leaves a bound open */
+export interface ExerciseLogFilters {
+  /** Matched against the operands and the answer, e.g. "47" or "12 + 9" */
+  search: string;
+  minDigits: number | null;
+  maxDigits: number | null;
+  minCarries: number | null;
+  maxCarries: number | null;
+  minSolveTimeS: number | null;
+  maxSolveTimeS: number | null;
+  timedOut: "all" | "yes" | "no";
+  minRating: number | null;
+  maxRating: number | null;
+}
+
+export const DEFAULT_EXERCISE_LOG_FILTERS: ExerciseLogFilters = {
+  search: "",
+  minDigits: null,
+  maxDigits: null,
+  minCarries: null,
+  maxCarries: null,
+  minSolveTimeS: null,
+  maxSolveTimeS: null,
+  timedOut: "all",
+  minRating: null,
+  maxRating: null,
+};
+
+// Number inputs bound with v-model.number yield "" once cleared
+function isBound(value: number | null): value is number {
+  return typeof value === "number" && Number.isFinite(value);
+}
+
+function inRange(value: number, min: number | null, max: number | null) {
+  return (!isBound(min) || value >= min) && (!isBound(max) || value <= max);
+}
+
+/** Whether any filter is set that only exercises can satisfy */
+export function hasExerciseOnlyFilters(filters: ExerciseLogFilters) {
+  return (
+    filters.search.trim() !== "" ||
+    isBound(filters.minDigits) ||
+    isBound(filters.maxDigits) ||
+    isBound(filters.minCarries) ||
+    isBound(filters.maxCarries) ||
+    isBound(filters.minSolveTimeS) ||
+    isBound(filters.maxSolveTimeS) ||
+    filters.timedOut !== "all"
+  );
+}
+
+export function matchesRatingFilter(
+  rating: number | undefined,
+  filters: ExerciseLogFilters,
+) {
+  if (!isBound(filters.minRating) && !isBound(filters.maxRating)) return true;
+  return (
+    rating !== undefined &&
+    inRange(rating, filters.minRating, filters.maxRating)
+  );
+}
+
+export function matchesExerciseFilters(
+  exercise: ExerciseRecord,
+  filters: ExerciseLogFilters,
+  averageRating: number | undefined,
+) {
+  const { countTotalDigits, countCarryovers } = useDifficultyCalculation();
+
+  const search = filters.search.trim().replace(/\s+/g, " ");
+  if (search) {
+    const text = `${formatExercise(exercise)} = ${exercise.answer}`;
+    const numbers = [...exercise.operands, exercise.answer].map(String);
+    if (!text.includes(search) && !numbers.includes(search)) return false;
+  }
+
+  if (
+    !inRange(
+      countTotalDigits(exercise.operands),
+      filters.minDigits,
+      filters.maxDigits,
+    )
+  ) {
+    return false;
+  }
+
+  if (
+    !inRange(
+      countCarryovers(exercise.operands, exercise.operation),
+      filters.minCarries,
+      filters.maxCarries,
+    )
+  ) {
+    return false;
+  }
+
+  if (isBound(filters.minSolveTimeS) || isBound(filters.maxSolveTimeS)) {
+    if (exercise.solvedAt === undefined) return false;
+    const solveTimeS = getSolveTimeMs(exercise)! / 1000;
+    if (!inRange(solveTimeS, filters.minSolveTimeS, filters.maxSolveTimeS)) {
+      return false;
+    }
+  }
+
+  if (
+    filters.timedOut !== "all" &&
+    !!exercise.timedOut !== (filters.timedOut === "yes")
+  ) {
+    return false;
+  }
+
+  return matchesRatingFilter(averageRating, filters);
+}
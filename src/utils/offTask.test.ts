@@ -0,0 +1,83 @@
+import { describe, expect, it } from "vitest";
+import type { ExerciseRecord } from "@/db";
+import {
+  applyContaminationHandling,
+  OFF_TASK_METRICS_VERSION,
+} from "@/utils/offTask";
+
+function exercise(overrides: Partial<ExerciseRecord>): ExerciseRecord {
+  return {
+    userId: "user",
+    operands: [12, 30],
+    operation: "addition",
+    answer: 42,
+    displayedAt: 1_000,
+    mode: "self-paced",
+    offTask: {
+      version: OFF_TASK_METRICS_VERSION,
+      offTaskMs: 3_000,
+      interruptionCount: 1,
+    },
+    ...overrides,
+  };
+}
+
+describe("applyContaminationHandling", () => {
+  it("leaves exercises alone when including them", () => {
+    const exercises = [exercise({ solvedAt: 9_000 })];
+    expect(applyContaminationHandling(exercises, "include", 2_000)).toBe(
+      exercises,
+    );
+  });
+
+  it("drops contaminated exercises when excluding them", () => {
+    const clean = exercise({
+      solvedAt: 2_000,
+      offTask: {
+        version: OFF_TASK_METRICS_VERSION,
+        offTaskMs: 500,
+        interruptionCount: 1,
+      },
+    });
+    expect(
+      applyContaminationHandling(
+        [clean, exercise({ solvedAt: 9_000 })],
+        "exclude",
+        2_000,
+      ),
+    ).toEqual([clean]);
+  });
+
+  it("takes the off-task time off a solved exercise", () => {
+    const [corrected] = applyContaminationHandling(
+      [exercise({ solvedAt: 9_000, solvedPreciseAt: 8_500 })],
+      "subtract",
+      2_000,
+    );
+    expect(corrected).toMatchObject({
+      displayedAt: 1_000,
+      solvedAt: 6_000,
+      solvedPreciseAt: 5_500,
+    });
+  });
+
+  it("takes the off-task time off a submitted but incorrect exercise", () => {
+    const [corrected] = applyContaminationHandling(
+      [
+        exercise({
+          submittedAt: 9_000,
+          submittedPreciseAt: 8_500,
+          submittedAnswer: 41,
+          isCorrect: false,
+        }),
+      ],
+      "subtract",
+      2_000,
+    );
+    expect(corrected).toMatchObject({
+      submittedAt: 6_000,
+      submittedPreciseAt: 5_500,
+    });
+    expect(corrected).not.toHaveProperty("solvedAt");
+  });
+});
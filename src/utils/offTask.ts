@@ -0,0 +1,115 @@
+import type { EventRecord, ExerciseRecord, OffTaskMetrics } from "@/db";
+
+export const OFF_TASK_METRICS_VERSION = 1;
+
+/** Exercises away from the task for longer than this count as contaminated */
+export const DEFAULT_OFF_TASK_THRESHOLD_MS = 2000;
+
+/** Events that move the participant off or back onto the task */
+export const ATTENTION_EVENT_TYPES = [
+  "document_visibility",
+  "window_focus",
+  "input_focus",
+  "input_blur",
+];
+
+/**
+ * include: analyse contaminated exercises as recorded
+ * exclude: drop them from the analyses
+ * subtract: keep them with the off-task time taken off their solve time
+ */
+export type ContaminationHandling = "include" | "exclude" | "subtract";
+
+/**
+ * Sum the time an exercise spent with the page hidden, the window unfocused or
+ * the answer input blurred. Events must be sorted by timestamp and lie between
+ * the exercise being shown and answered, when the participant is on task.
+ */
+export function computeOffTaskMetrics(
+  endedAt: number,
+  events: EventRecord[],
+): OffTaskMetrics {
+  let hidden = false;
+  let unfocused = false;
+  let blurred = false;
+  let offTaskSince: number | null = null;
+  let offTaskMs = 0;
+  let interruptionCount = 0;
+
+  for (const event of events) {
+    switch (event.type) {
+      case "document_visibility":
+        hidden = event.payload.hidden === true;
+        break;
+      case "window_focus":
+        unfocused = event.payload.focused === false;
+        break;
+      case "input_blur":
+        blurred = true;
+        break;
+      case "input_focus":
+        blurred = false;
+        break;
+      default:
+        continue;
+    }
+
+    const offTask = hidden || unfocused || blurred;
+    if (offTask && offTaskSince === null) {
+      offTaskSince = event.timestamp;
+      interruptionCount++;
+    } else if (!offTask && offTaskSince !== null) {
+      offTaskMs += event.timestamp - offTaskSince;
+      offTaskSince = null;
+    }
+  }
+  if (offTaskSince !== null) {
+    offTaskMs += Math.max(0, endedAt - offTaskSince);
+  }
+
+  return { version: OFF_TASK_METRICS_VERSION, offTaskMs, interruptionCount };
+}
+
+export function hasCurrentOffTaskMetrics(exercise: ExerciseRecord) {
+  return exercise.offTask?.version === OFF_TASK_METRICS_VERSION;
+}
+
+export function isContaminated(exercise: ExerciseRecord, thresholdMs: number) {
+  return (exercise.offTask?.offTaskMs ?? 0) > thresholdMs;
+}
+
+// When an exercise ended, on either clock; subtract moves all of them
+const END_TIME_FIELDS = [
+  "solvedAt",
+  "solvedPreciseAt",
+  "submittedAt",
+  "submittedPreciseAt",
+] as const;
+
+function subtractOffTaskTime(exercise: ExerciseRecord): ExerciseRecord {
+  const offTaskMs = exercise.offTask!.offTaskMs;
+  const corrected = { ...exercise };
+  for (const field of END_TIME_FIELDS) {
+    const time = exercise[field];
+    if (time !== undefined) corrected[field] = time - offTaskMs;
+  }
+  return corrected;
+}
+
+/**
+ * Exclude contaminated exercises, or move their end times earlier by the
+ * time spent off task so every duration-based analysis sees the corrected time
+ */
+export function applyContaminationHandling(
+  exercises: ExerciseRecord[],
+  handling: ContaminationHandling,
+  thresholdMs: number,
+) {
+  if (handling === "include") return exercises;
+  if (handling === "exclude") {
+    return exercises.filter((ex) => !isContaminated(ex, thresholdMs));
+  }
+  return exercises.map((ex) =>
+    isContaminated(ex, thresholdMs) ? subtractOffTaskTime(ex) : ex,
+  );
+}
@@ -0,0 +1,197 @@
+import type { ExerciseOperation } from "@/db";
+
+export interface OperationDefinition {
+  id: ExerciseOperation;
+  label: string;
+  symbol: string;
+  /** Upper bound on digit counts for the first and all following operands */
+  maxDigits: { first: number; rest: number };
+  generate: (digitCounts: number[]) => number[];
+  computeAnswer: (operands: number[]) => number;
+  /**
+   * Carries for addition and multiplication, borrows for subtraction,
+   * accumulated while working through the chain from left to right
+   */
+  countCarries: (operands: number[]) => number;
+}
+
+function randomInt(min: number, max: number) {
+  return Math.floor(Math.random() * (max - min + 1)) + min;
+}
+
+export function randomWithDigits(digits: number) {
+  if (digits <= 1) {
+    return randomInt(1, 9);
+  }
+  return randomInt(10 ** (digits - 1), 10 ** digits - 1);
+}
+
+function toReversedDigits(value: number) {
+  return String(Math.abs(value))
+    .split("")
+    .reverse()
+    .map((digit) => parseInt(digit, 10));
+}
+
+function countAdditionCarries(operandA: number, operandB: number) {
+  const digitsA = toReversedDigits(operandA);
+  const digitsB = toReversedDigits(operandB);
+  const maxLen = Math.max(digitsA.length, digitsB.length);
+
+  let carryovers = 0;
+  let carry = 0;
+
+  for (let i = 0; i < maxLen; i++) {
+    const sum = (digitsA[i] ?? 0) + (digitsB[i] ?? 0) + carry;
+
+    if (sum >= 10) {
+      carryovers++;
+      carry = 1;
+    } else {
+      carry = 0;
+    }
+  }
+
+  return carryovers;
+}
+
+function countSubtractionBorrows(operandA: number, operandB: number) {
+  const digitsA = toReversedDigits(Math.max(operandA, operandB));
+  const digitsB = toReversedDigits(Math.min(operandA, operandB));
+
+  let borrows = 0;
+  let borrow = 0;
+
+  for (let i = 0; i < digitsA.length; i++) {
+    const difference = (digitsA[i] ?? 0) - (digitsB[i] ?? 0) - borrow;
+
+    if (difference < 0) {
+      borrows++;
+      borrow = 1;
+    } else {
+      borrow = 0;
+    }
+  }
+
+  return borrows;
+}
+
+function countMultiplicationCarries(operandA: number, operandB: number) {
+  const digitsA = toReversedDigits(operandA);
+  const digitsB = toReversedDigits(operandB);
+
+  let carries = 0;
+  let runningTotal = 0;
+
+  digitsB.forEach((digitB, position) => {
+    // Carries while forming the partial product for this digit
+    let carry = 0;
+    digitsA.forEach((digitA) => {
+      const product = digitA * digitB + carry;
+      carry = Math.floor(product / 10);
+      if (carry > 0) carries++;
+    });
+
+    // Carries while adding the partial product to the running total
+    const partial = operandA * digitB * 10 ** position;
+    if (position > 0) {
+      carries += countAdditionCarries(runningTotal, partial);
+    }
+    runningTotal += partial;
+  });
+
+  return carries;
+}
+
+/**
+ * Fold a chain left to right, summing the carries of every intermediate step
+ * (e.g. 23 + 48 + 7 counts carries of 23 + 48 and then of 71 + 7)
+ */
+function countChainCarries(
+  operands: number[],
+  step: (left: number, right: number) => number,
+  countStepCarries: (left: number, right: number) => number,
+) {
+  let carries = 0;
+  let intermediate = operands[0] ?? 0;
+
+  for (const operand of operands.slice(1)) {
+    carries += countStepCarries(intermediate, operand);
+    intermediate = step(intermediate, operand);
+  }
+
+  return carries;
+}
+
+export const OPERATIONS: Record<ExerciseOperation, OperationDefinition> = {
+  addition: {
+    id: "addition",
+    label: "Addition",
+    symbol: "+",
+    maxDigits: { first: 4, rest: 4 },
+    generate: (digitCounts) => digitCounts.map(randomWithDigits),
+    computeAnswer: (operands) =>
+      operands.reduce((sum, value) => sum + value, 0),
+    countCarries: (operands) =>
+      countChainCarries(operands, (a, b) => a + b, countAdditionCarries),
+  },
+  subtraction: {
+    id: "subtraction",
+    label: "Subtraction",
+    symbol: "−",
+    maxDigits: { first: 4, rest: 4 },
+    generate: (digitCounts) => {
+      const operands = digitCounts.map(randomWithDigits);
+      const subtrahends = operands.slice(1);
+      const total = subtrahends.reduce((sum, value) => sum + value, 0);
+
+      // Keep the minuend large enough that every intermediate result stays
+      // a natural number
+      if (subtrahends.length === 1) {
+        const [first = 0, second = 0] = operands;
+        return [Math.max(first, second), Math.min(first, second)];
+      }
+      const first = operands[0] ?? 0;
+      return [first >= total ? first : total + randomInt(0, 9), ...subtrahends];
+    },
+    computeAnswer: ([first = 0, ...rest]) =>
+      rest.reduce((difference, value) => difference - value, first),
+    countCarries: (operands) =>
+      countChainCarries(operands, (a, b) => a - b, countSubtractionBorrows),
+  },
+  multiplication: {
+    id: "multiplication",
+    label: "Multiplication",
+    symbol: "×",
+    maxDigits: { first: 2, rest: 1 },
+    generate: (digitCounts) =>
+      digitCounts.map((digits, index) =>
+        index > 0 && digits <= 1 ? randomInt(2, 9) : randomWithDigits(digits),
+      ),
+    computeAnswer: (operands) =>
+      operands.reduce((product, value) => product * value, 1),
+    countCarries: (operands) =>
+      countChainCarries(operands, (a, b) => a * b, countMultiplicationCarries),
+  },
+};
+
+export const OPERATION_IDS = Object.keys(OPERATIONS) as ExerciseOperation[];
+
+export function getOperation(operation: ExerciseOperation | undefined) {
+  return OPERATIONS[operation ?? "addition"];
+}
+
+export function formatExercise(exercise: {
+  operands: number[];
+  operation?: ExerciseOperation;
+}) {
+  const { symbol } = getOperation(exercise.operation);
+  return exercise.operands.join(` ${symbol} `);
+}
+
+export function pickOperation(
+  activeOperations: ExerciseOperation[],
+): ExerciseOperation {
+  if (activeOperations.length === 0) return "addition";
+  return activeOperations[randomInt(0, activeOperations.length - 1)]!;
+}
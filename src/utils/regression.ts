@@ -0,0 +1,227 @@
+/** Rows are observations, columns are predictors (without an intercept column) */
+export type DesignMatrix = number[][];
+
+export interface LinearModel {
+  intercept: number;
+  coefficients: number[];
+  /** Standard errors and 95% confidence intervals, in the original units */
+  standardErrors: number[];
+  confidenceIntervals: [number, number][];
+  /** Predictors without variance get a coefficient of 0 and are flagged */
+  constant: boolean[];
+  rSquared: number | null;
+  n: number;
+  ridge: number;
+}
+
+export interface CrossValidationResult {
+  /** R² of the pooled out-of-fold predictions */
+  rSquared: number | null;
+  folds: number;
+}
+
+/**
+ * Solve A x = b with Gaussian elimination and partial pivoting. Returns null
+ * for a (numerically) singular A.
+ */
+function solve(A: number[][], b: number[]): number[] | null {
+  const n = b.length;
+  const m = A.map((row, i) => [...row, b[i]!]);
+
+  for (let col = 0; col < n; col++) {
+    let pivot = col;
+    for (let row = col + 1; row < n; row++) {
+      if (Math.abs(m[row]![col]!) > Math.abs(m[pivot]![col]!)) pivot = row;
+    }
+    if (Math.abs(m[pivot]![col]!) < 1e-12) return null;
+    [m[col], m[pivot]] = [m[pivot]!, m[col]!];
+
+    for (let row = col + 1; row < n; row++) {
+      const factor = m[row]![col]! / m[col]![col]!;
+      for (let k = col; k <= n; k++) {
+        m[row]![k]! -= factor * m[col]![k]!;
+      }
+    }
+  }
+
+  const x = new Array<number>(n).fill(0);
+  for (let row = n - 1; row >= 0; row--) {
+    let sum = m[row]![n]!;
+    for (let k = row + 1; k < n; k++) sum -= m[row]![k]! * x[k]!;
+    x[row] = sum / m[row]![row]!;
+  }
+  return x;
+}
+
+function invert(A: number[][]): number[][] | null {
+  const n = A.length;
+  const columns: number[][] = [];
+  for (let i = 0; i < n; i++) {
+    const unit = new Array<number>(n).fill(0);
+    unit[i] = 1;
+    const column = solve(A, unit);
+    if (!column) return null;
+    columns.push(column);
+  }
+  return columns[0]!.map((_, row) => columns.map((column) => column[row]!));
+}
+
+function multiply(A: number[][], B: number[][]) {
+  return A.map((row) =>
+    B[0]!.map((_, j) =>
+      row.reduce((sum, value, k) => sum + value * B[k]![j]!, 0),
+    ),
+  );
+}
+
+function mean(values: number[]) {
+  return values.reduce((sum, value) => sum + value, 0) / values.length;
+}
+
+/** Two-sided 95% Student t quantile (Cornish-Fisher expansion of z = 1.96) */
+function tCritical95(df: number) {
+  const z = 1.959964;
+  if (df <= 0) return Infinity;
+  return (
+    z +
+    (z ** 3 + z) / (4 * df) +
+    (5 * z ** 5 + 16 * z ** 3 + 3 * z) / (96 * df ** 2) +
+    (3 * z ** 7 + 19 * z ** 5 + 17 * z ** 3 - 15 * z) / (384 * df ** 3)
+  );
+}
+
+/** Coefficient of determination of predictions against observed values */
+export function rSquared(observed: number[], predicted: number[]) {
+  if (observed.length < 2) return null;
+  const average = mean(observed);
+  const ssTot = observed.reduce((sum, y) => sum + (y - average) ** 2, 0);
+  if (ssTot === 0) return null;
+  const ssRes = observed.reduce(
+    (sum, y, i) => sum + (y - predicted[i]!) ** 2,
+    0,
+  );
+  return 1 - ssRes / ssTot;
+}
+
+/**
+ * Fit y = intercept + X b by least squares, with an optional ridge penalty on
+ * the standardised predictors (the intercept is never penalised). Returns null
+ * when there are too few observations or the predictors are collinear.
+ */
+export function fitLinearModel(
+  X: DesignMatrix,
+  y: number[],
+  ridge = 0,
+): LinearModel | null {
+  const n = y.length;
+  const p = X[0]?.length ?? 0;
+  if (n === 0 || n !== X.length) return null;
+
+  const means = Array.from({ length: p }, (_, j) =>
+    mean(X.map((row) => row[j]!)),
+  );
+  const scales = means.map((average, j) =>
+    Math.sqrt(mean(X.map((row) => (row[j]! - average) ** 2))),
+  );
+  const constant = scales.map((scale) => scale < 1e-12);
+  const active = constant.flatMap((isConstant, j) => (isConstant ? [] : [j]));
+  const q = active.length;
+  if (n <= q + 1) return null;
+
+  const yMean = mean(y);
+  const Z = X.map((row) =>
+    active.map((j) => (row[j]! - means[j]!) / scales[j]!),
+  );
+  const yc = y.map((value) => value - yMean);
+
+  const ZtZ = active.map((_, a) =>
+    active.map((__, b) => Z.reduce((sum, row) => sum + row[a]! * row[b]!, 0)),
+  );
+  const penalised = ZtZ.map((row, a) =>
+    row.map((value, b) => (a === b ? value + ridge * n : value)),
+  );
+  const Zty = active.map((_, a) =>
+    Z.reduce((sum, row, i) => sum + row[a]! * yc[i]!, 0),
+  );
+
+  const beta = q > 0 ? solve(penalised, Zty) : [];
+  const inverse = q > 0 ? invert(penalised) : [];
+  if (!beta || !inverse) return null;
+
+  const fitted = Z.map(
+    (row) => yMean + row.reduce((sum, value, a) => sum + value * beta[a]!, 0),
+  );
+  const rss = y.reduce((sum, value, i) => sum + (value - fitted[i]!) ** 2, 0);
+  const sigma2 = rss / (n - q - 1);
+  // Var(b) = s² (Z'Z + λI)⁻¹ Z'Z (Z'Z + λI)⁻¹, which reduces to OLS for λ = 0
+  const covariance = q > 0 ? multiply(multiply(inverse, ZtZ), inverse) : [];
+  const t = tCritical95(n - q - 1);
+
+  const coefficients = new Array<number>(p).fill(0);
+  const standardErrors = new Array<number>(p).fill(0);
+  active.forEach((j, a) => {
+    coefficients[j] = beta[a]! / scales[j]!;
+    standardErrors[j] = Math.sqrt(sigma2 * covariance[a]![a]!) / scales[j]!;
+  });
+  const intercept =
+    yMean - coefficients.reduce((sum, b, j) => sum + b * means[j]!, 0);
+
+  return {
+    intercept,
+    coefficients,
+    standardErrors,
+    confidenceIntervals: coefficients.map((b, j) => [
+      b - t * standardErrors[j]!,
+      b + t * standardErrors[j]!,
+    ]),
+    constant,
+    rSquared: rSquared(y, fitted),
+    n,
+    ridge,
+  };
+}
+
+export function predict(model: LinearModel, row: number[]) {
+  return row.reduce(
+    (sum, value, j) => sum + value * model.coefficients[j]!,
+    model.intercept,
+  );
+}
+
+/**
+ * k-fold cross-validation. Observations are dealt into folds round-robin so
+ * the result is reproducible and every fold spans the whole recording period.
+ */
+export function crossValidate(
+  X: DesignMatrix,
+  y: number[],
+  { folds = 5, ridge = 0 }: { folds?: number; ridge?: number } = {},
+): CrossValidationResult {
+  const k = Math.min(folds, y.length);
+  if (k < 2) return { rSquared: null, folds: k };
+
+  const observed: number[] = [];
+  const predicted: number[] = [];
+  for (let fold = 0; fold < k; fold++) {
+    const trainX: DesignMatrix = [];
+    const trainY: number[] = [];
+    const testIndices: number[] = [];
+    y.forEach((value, i) => {
+      if (i % k === fold) {
+        testIndices.push(i);
+      } else {
+        trainX.push(X[i]!);
+        trainY.push(value);
+      }
+    });
+
+    const model = fitLinearModel(trainX, trainY, ridge);
+    if (!model) return { rSquared: null, folds: k };
+    testIndices.forEach((i) => {
+      observed.push(y[i]!);
+      predicted.push(predict(model, X[i]!));
+    });
+  }
+
+  return { rSquared: rSquared(observed, predicted), folds: k };
+}
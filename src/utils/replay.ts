@@ -0,0 +1,243 @@
+import type { EventRecord, ExerciseRecord } from "@/db";
+
+/** Gaps between events of the same exercise longer than this are marked as pauses */
+export const REPLAY_PAUSE_THRESHOLD_MS = 2000;
+
+export type ReplayFrameKind =
+  | "exercise"
+  | "input"
+  | "correction"
+  | "keystroke"
+  | "pause"
+  | "focus"
+  | "visibility"
+  | "timer"
+  | "outcome"
+  | "evaluation"
+  | "other";
+
+export interface ReplayFrame {
+  /** Milliseconds since the first event of the replay */
+  offsetMs: number;
+  timestamp: number;
+  kind: ReplayFrameKind;
+  label: string;
+  exerciseId?: string;
+  /** Missing for synthesized frames such as pauses */
+  event?: EventRecord;
+  /** Typed value after this frame, for input and correction frames */
+  value?: string;
+}
+
+export interface ReplayState {
+  exerciseId?: string;
+  typedValue: string;
+  corrections: number;
+  pauses: number;
+  tabHidden: boolean;
+  windowFocused: boolean;
+  inputFocused: boolean;
+  outcome?: "solved" | "timed_out" | "incorrect";
+  timerStartOffsetMs?: number;
+  timerDurationMs?: number;
+  /** Index of the last frame at or before the requested offset, -1 before the start */
+  frameIndex: number;
+}
+
+function payloadString(event: EventRecord, key: string) {
+  const value = event.payload[key];
+  return typeof value === "string" ? value : undefined;
+}
+
+function describeEvent(
+  event: EventRecord,
+  previousValue: string,
+): Omit<ReplayFrame, "offsetMs" | "timestamp" | "exerciseId" | "event"> {
+  switch (event.type) {
+    case "exercise_shown":
+      return { kind: "exercise", label: "Exercise shown" };
+    case "input_change": {
+      const value = payloadString(event, "value") ?? "";
+      // A shorter value than before means digits were deleted
+      const isCorrection = value.length < previousValue.length;
+      return {
+        kind: isCorrection ? "correction" : "input",
+        label: isCorrection ? `Deleted → "${value}"` : `Typed → "${value}"`,
+        value,
+      };
+    }
+    case "input_keydown":
+      return {
+        kind: "keystroke",
+        label: `Key ${payloadString(event, "key") ?? "?"}`,
+      };
+    case "input_focus":
+      return { kind: "focus", label: "Input focused" };
+    case "input_blur":
+      return { kind: "focus", label: "Input blurred" };
+    case "window_focus":
+      return {
+        kind: "focus",
+        label: event.payload.focused ? "Window focused" : "Window blurred",
+      };
+    case "document_visibility":
+      return {
+        kind: "visibility",
+        label: event.payload.hidden ? "Tab hidden" : "Tab visible",
+      };
+    case "timer_started":
+      return {
+        kind: "timer",
+        label: `Timer started (${Number(event.payload.duration) / 1000}s)`,
+      };
+    case "exercise_solved":
+      return { kind: "outcome", label: "Solved" };
+    case "exercise_timed_out":
+      return { kind: "outcome", label: "Timed out" };
+    case "exercise_answered_incorrectly":
+      return {
+        kind: "outcome",
+        label:
+          `Wrong answer ${payloadString(event, "inputValue") ?? ""}`.trim(),
+      };
+    case "evaluation_prompted":
+    case "evaluation_submitted":
+    case "evaluation_skipped":
+      return { kind: "evaluation", label: event.type.replace(/_/g, " ") };
+    default:
+      return { kind: "other", label: event.type.replace(/_/g, " ") };
+  }
+}
+
+/**
+ * Turn a time-ordered event list into replay frames, inserting a pause frame
+ * wherever the same exercise saw no events for longer than the threshold
+ */
+export function buildReplayTimeline(events: EventRecord[]): ReplayFrame[] {
+  const first = events[0];
+  if (!first) return [];
+
+  const frames: ReplayFrame[] = [];
+  const typedValues = new Map<string, string>();
+  const lastEventAt = new Map<string, number>();
+
+  for (const event of events) {
+    const exerciseId = event.exerciseId;
+    const previousValue =
+      exerciseId !== undefined ? (typedValues.get(exerciseId) ?? "") : "";
+
+    if (exerciseId !== undefined) {
+      const previousAt = lastEventAt.get(exerciseId);
+      if (
+        previousAt !== undefined &&
+        event.timestamp - previousAt >= REPLAY_PAUSE_THRESHOLD_MS
+      ) {
+        frames.push({
+          offsetMs: previousAt - first.timestamp,
+          timestamp: previousAt,
+          kind: "pause",
+          label: `Paused ${((event.timestamp - previousAt) / 1000).toFixed(1)}s`,
+          exerciseId,
+        });
+      }
+      lastEventAt.set(exerciseId, event.timestamp);
+    }
+
+    const frame = describeEvent(event, previousValue);
+    if (exerciseId !== undefined && frame.value !== undefined) {
+      typedValues.set(exerciseId, frame.value);
+    }
+
+    frames.push({
+      ...frame,
+      offsetMs: event.timestamp - first.timestamp,
+      timestamp: event.timestamp,
+      exerciseId,
+      event,
+    });
+  }
+
+  // Pause frames are inserted at the start of their gap, after later frames
+  // of other exercises may already have been pushed
+  return frames.sort((a, b) => a.offsetMs - b.offsetMs);
+}
+
+export function getReplayDuration(frames: ReplayFrame[]) {
+  return frames[frames.length - 1]?.offsetMs ?? 0;
+}
+
+/**
+ * Fold all frames up to the given offset into what the screen looked like
+ */
+export function getReplayStateAt(
+  frames: ReplayFrame[],
+  offsetMs: number,
+): ReplayState {
+  const state: ReplayState = {
+    typedValue: "",
+    corrections: 0,
+    pauses: 0,
+    tabHidden: false,
+    windowFocused: true,
+    inputFocused: false,
+    frameIndex: -1,
+  };
+
+  for (let index = 0; index < frames.length; index++) {
+    const frame = frames[index]!;
+    if (frame.offsetMs > offsetMs) break;
+    state.frameIndex = index;
+
+    switch (frame.kind) {
+      case "exercise":
+        state.exerciseId = frame.exerciseId;
+        state.typedValue = "";
+        state.outcome = undefined;
+        state.timerStartOffsetMs = undefined;
+        state.timerDurationMs = undefined;
+        break;
+      case "correction":
+        state.corrections++;
+        state.typedValue = frame.value ?? "";
+        break;
+      case "input":
+        state.typedValue = frame.value ?? "";
+        break;
+      case "pause":
+        state.pauses++;
+        break;
+      case "visibility":
+        state.tabHidden = !!frame.event?.payload.hidden;
+        break;
+      case "focus":
+        if (frame.event?.type === "window_focus") {
+          state.windowFocused = !!frame.event.payload.focused;
+        } else {
+          state.inputFocused = frame.event?.type === "input_focus";
+        }
+        break;
+      case "timer":
+        state.timerStartOffsetMs = frame.offsetMs;
+        state.timerDurationMs = Number(frame.event?.payload.duration);
+        break;
+      case "outcome":
+        state.outcome =
+          frame.event?.type === "exercise_solved"
+            ? "solved"
+            : frame.event?.type === "exercise_answered_incorrectly"
+              ? "incorrect"
+              : "timed_out";
+        break;
+    }
+  }
+
+  return state;
+}
+
+export function indexExercises(exercises: ExerciseRecord[]) {
+  return new Map(
+    exercises
+      .filter((exercise) => exercise.id !== undefined)
+      .map((exercise) => [exercise.id!, exercise]),
+  );
+}
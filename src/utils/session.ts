@@ -0,0 +1,10 @@
+import type { SessionRecord } from "@/db";
+
+export function formatSessionLabel(session: SessionRecord) {
+  const started = new Date(session.startedAt).toLocaleString();
+  return `${started} (${session.mode})`;
+}
+
+export function getSessionDuration(session: SessionRecord) {
+  return (session.endedAt ?? session.lastActivityAt) - session.startedAt;
+}
@@ -0,0 +1,105 @@
+import {
+  STAIRCASE_MAX_LEVEL,
+  STAIRCASE_MIN_LEVEL,
+  type StaircaseDirection,
+  type StaircaseState,
+} from "@/types/staircase";
+import { median } from "@/utils/statistics";
+
+/** Successes needed in a row before the staircase steps up (2-up/1-down) */
+export const STAIRCASE_SUCCESSES_TO_STEP_UP = 2;
+
+/** A solve slower than this multiple of the recent median counts as a miss */
+export const STAIRCASE_SLOW_SOLVE_FACTOR = 1.25;
+
+/** Recent solves needed before solve time is taken into account */
+export const STAIRCASE_MIN_REFERENCE_SOLVES = 5;
+
+export interface StaircaseTrial {
+  timedOut: boolean;
+  /** A wrong answer submitted with Enter */
+  incorrect?: boolean;
+  durationMs?: number;
+  keystrokeCount?: number;
+  answerLength: number;
+  recentDurationsMs: number[];
+}
+
+export interface StaircaseTrialOutcome {
+  success: boolean;
+  efficient: boolean;
+  fastEnough: boolean;
+  referenceDurationMs: number | null;
+}
+
+export function evaluateStaircaseTrial(
+  trial: StaircaseTrial,
+): StaircaseTrialOutcome {
+  const referenceDurationMs =
+    trial.recentDurationsMs.length >= STAIRCASE_MIN_REFERENCE_SOLVES
+      ? median(trial.recentDurationsMs)
+      : null;
+
+  // Extra keystrokes mean the user corrected a wrong entry
+  const efficient =
+    trial.keystrokeCount === undefined ||
+    trial.keystrokeCount <= trial.answerLength;
+
+  const fastEnough =
+    trial.durationMs !== undefined &&
+    (referenceDurationMs === null ||
+      trial.durationMs <= referenceDurationMs * STAIRCASE_SLOW_SOLVE_FACTOR);
+
+  return {
+    success: !trial.timedOut && !trial.incorrect && efficient && fastEnough,
+    efficient,
+    fastEnough,
+    referenceDurationMs,
+  };
+}
+
+export function updateStaircase(
+  state: StaircaseState,
+  success: boolean,
+): StaircaseState {
+  let direction: StaircaseDirection | null = null;
+  let consecutiveSuccesses = state.consecutiveSuccesses;
+
+  if (success) {
+    consecutiveSuccesses++;
+    if (consecutiveSuccesses >= STAIRCASE_SUCCESSES_TO_STEP_UP) {
+      direction = "up";
+      consecutiveSuccesses = 0;
+    }
+  } else {
+    direction = "down";
+    consecutiveSuccesses = 0;
+  }
+
+  const step = direction === "up" ? 1 : direction === "down" ? -1 : 0;
+  const level = Math.min(
+    STAIRCASE_MAX_LEVEL,
+    Math.max(STAIRCASE_MIN_LEVEL, state.level + step),
+  );
+  const isReversal =
+    direction !== null &&
+    state.lastDirection !== null &&
+    direction !== state.lastDirection;
+
+  return {
+    level,
+    consecutiveSuccesses,
+    reversals: state.reversals + (isReversal ? 1 : 0),
+    lastDirection: direction ?? state.lastDirection,
+    trials: state.trials + 1,
+  };
+}
+
+/** Map a staircase level onto the 0-100 predicted difficulty scale */
+export function getStaircaseTargetDifficulty(level: number) {
+  return (
+    ((level - STAIRCASE_MIN_LEVEL) /
+      (STAIRCASE_MAX_LEVEL - STAIRCASE_MIN_LEVEL)) *
+    100
+  );
+}
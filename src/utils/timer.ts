@@ -0,0 +1,66 @@
+import type { TimerDurationPolicy, TimerSettings } from "@/types/timer";
+import { median } from "@/utils/statistics";
+
+/** Recent solves needed before the adaptive deadline replaces the fixed one */
+export const TIMER_MIN_REFERENCE_SOLVES = 5;
+
+export interface TimerDurationInput {
+  settings: TimerSettings;
+  predictedDifficulty?: number;
+  recentDurationsMs: number[];
+}
+
+export interface TimerDuration {
+  durationMs: number;
+  /** Policy that actually produced the duration, after any fallback */
+  appliedPolicy: TimerDurationPolicy;
+  predictedDifficulty?: number;
+  referenceDurationMs?: number;
+}
+
+function clamp(value: number, min: number, max: number) {
+  return Math.min(max, Math.max(min, value));
+}
+
+export function resolveTimerDuration({
+  settings,
+  predictedDifficulty,
+  recentDurationsMs,
+}: TimerDurationInput): TimerDuration {
+  const { minDurationMs, maxDurationMs } = settings;
+
+  if (
+    settings.durationPolicy === "difficulty-scaled" &&
+    predictedDifficulty !== undefined
+  ) {
+    // Linear between the bounds over the 0-100 predicted difficulty scale
+    const share = clamp(predictedDifficulty, 0, 100) / 100;
+    return {
+      durationMs: Math.round(
+        minDurationMs + (maxDurationMs - minDurationMs) * share,
+      ),
+      appliedPolicy: "difficulty-scaled",
+      predictedDifficulty,
+    };
+  }
+
+  if (
+    settings.durationPolicy === "adaptive-median" &&
+    recentDurationsMs.length >= TIMER_MIN_REFERENCE_SOLVES
+  ) {
+    const referenceDurationMs = median(recentDurationsMs)!;
+    return {
+      durationMs: Math.round(
+        clamp(
+          referenceDurationMs * settings.medianMultiplier,
+          minDurationMs,
+          maxDurationMs,
+        ),
+      ),
+      appliedPolicy: "adaptive-median",
+      referenceDurationMs,
+    };
+  }
+
+  return { durationMs: settings.fixedDurationMs, appliedPolicy: "fixed" };
+}
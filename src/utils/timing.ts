@@ -0,0 +1,59 @@
+import type { ExerciseRecord } from "@/db";
+
+/**
+ * The precise clock: performance.timeOrigin + performance.now(). It has
+ * sub-millisecond resolution, never jumps with the system clock within a page
+ * load, and is close enough to Date.now() to sit next to wall-clock times.
+ */
+export function preciseNow() {
+  return performance.timeOrigin + performance.now();
+}
+
+/** Move a DOMHighResTimeStamp, e.g. Event.timeStamp, onto the precise clock */
+export function toPreciseTime(highResTimeStamp: number) {
+  return performance.timeOrigin + highResTimeStamp;
+}
+
+type TimedExercise = Pick<
+  ExerciseRecord,
+  | "displayedAt"
+  | "solvedAt"
+  | "submittedAt"
+  | "onsetAt"
+  | "onsetPreciseAt"
+  | "solvedPreciseAt"
+  | "submittedPreciseAt"
+>;
+
+function elapsedSinceOnset(
+  exercise: TimedExercise,
+  endedAt: number | undefined,
+  endedPreciseAt: number | undefined,
+) {
+  if (endedAt === undefined) return undefined;
+  if (exercise.onsetPreciseAt !== undefined && endedPreciseAt !== undefined) {
+    return endedPreciseAt - exercise.onsetPreciseAt;
+  }
+  // Exercises recorded before onsets were captured start at their creation
+  return endedAt - (exercise.onsetAt ?? exercise.displayedAt);
+}
+
+/** Milliseconds from the exercise appearing on screen to its correct answer */
+export function getSolveTimeMs(exercise: TimedExercise) {
+  return elapsedSinceOnset(
+    exercise,
+    exercise.solvedAt,
+    exercise.solvedPreciseAt,
+  );
+}
+
+/** Milliseconds to the first answer, whether correct or wrong */
+export function getAnswerTimeMs(exercise: TimedExercise) {
+  return exercise.solvedAt !== undefined
+    ? getSolveTimeMs(exercise)
+    : elapsedSinceOnset(
+        exercise,
+        exercise.submittedAt,
+        exercise.submittedPreciseAt,
+      );
+}
@@ -0,0 +1,49 @@
+// Built as /sw.js; vite.config.ts replaces this with the build's file list
+declare const __PRECACHE_MANIFEST__: { version: string; urls: string[] };
+
+declare const self: ServiceWorkerGlobalScope;
+
+const CACHE_PREFIX = "maf-precache-";
+const manifest = __PRECACHE_MANIFEST__;
+const cacheName = CACHE_PREFIX + manifest.version;
+
+// A new version waits until every tab of the old one is closed, so a running
+// session never mixes files of two builds
+self.addEventListener("install", (event) => {
+  event.waitUntil(
+    caches.open(cacheName).then((cache) => cache.addAll(manifest.urls)),
+  );
+});
+
+self.addEventListener("activate", (event) => {
+  event.waitUntil(
+    caches
+      .keys()
+      .then((names) =>
+        Promise.all(
+          names
+            .filter(
+              (name) => name.startsWith(CACHE_PREFIX) && name !== cacheName,
+            )
+            .map((name) => caches.delete(name)),
+        ),
+      )
+      .then(() => self.clients.claim()),
+  );
+});
+
+self.addEventListener("fetch", (event) => {
+  const { request } = event;
+  if (request.method !== "GET") return;
+  const url = new URL(request.url);
+  if (url.origin !== self.location.origin) return;
+
+  // Routes are handled by the app, so every page is the cached index.html
+  const key = request.mode === "navigate" ? "/index.html" : request;
+  event.respondWith(
+    caches
+      .open(cacheName)
+      .then((cache) => cache.match(key))
+      .then((cached) => cached ?? fetch(request)),
+  );
+});
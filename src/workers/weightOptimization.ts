@@ -0,0 +1,266 @@
+import type { EvaluationRecord, ExerciseMode, ExerciseRecord } from "@/db";
+import type { DifficultyWeights } from "@/types/difficulty";
+import { DEFAULT_DIFFICULTY_WEIGHTS } from "@/types/difficulty";
+import { useDifficultyCalculation } from "@/composables/useDifficultyCalculation";
+import {
+  useOutlierDetection,
+  type DataPoint,
+} from "@/composables/useOutlierDetection";
+import { useCorrelationStats } from "@/composables/useCorrelationStats";
+import { getCorrectnessOutcome } from "@/utils/answerErrors";
+import { getSolveTimeMs } from "@/utils/timing";
+
+export interface OptimizationCorrelations {
+  cl: number | null;
+  time: number | null;
+  correctness: number | null;
+}
+
+export interface OptimizationResult {
+  weights: DifficultyWeights;
+  correlations: OptimizationCorrelations;
+  compositeScore: number;
+}
+
+export interface OptimizationProgress {
+  current: number;
+  total: number;
+  percentage: number;
+}
+
+/** Digits, carryovers and (negated) zeros, in the order of the weights */
+type FeatureVector = [number, number, number];
+
+interface FeaturePoint {
+  features: FeatureVector;
+  y: number;
+}
+
+/**
+ * Everything the search needs, reduced to plain numbers so it can be posted
+ * to the worker and each weight combination becomes a dot product
+ */
+export interface OptimizationInput {
+  /** Every exercise in the mode filter, for normalising scores to 0-100 */
+  rangeFeatures: FeatureVector[];
+  time: FeaturePoint[];
+  rating: FeaturePoint[];
+  correctness: FeaturePoint[];
+  detectOutliers: boolean;
+  outlierSensitivity: number;
+}
+
+export type OptimizationRequest = { type: "start"; input: OptimizationInput };
+
+export type OptimizationResponse =
+  | { type: "progress"; progress: OptimizationProgress }
+  | { type: "result"; result: OptimizationResult }
+  | { type: "error"; message: string };
+
+const { countTotalDigits, countZeros, countCarryovers } =
+  useDifficultyCalculation();
+const { applyOutlierDetection } = useOutlierDetection();
+const { calculateCorrelation } = useCorrelationStats();
+
+function toFeatureVector(ex: ExerciseRecord): FeatureVector {
+  return [
+    countTotalDigits(ex.operands),
+    countCarryovers(ex.operands, ex.operation),
+    countZeros(ex.operands),
+  ];
+}
+
+/**
+ * Extract feature vectors and outcomes with the same filters the predictor
+ * charts use
+ */
+export function buildOptimizationInput(
+  exercises: ExerciseRecord[],
+  evaluations: EvaluationRecord[],
+  modeFilter: ExerciseMode | "all",
+  detectOutliers: boolean,
+  outlierSensitivity: number,
+): OptimizationInput {
+  const inMode = (ex: ExerciseRecord) =>
+    modeFilter === "all" || ex.mode === modeFilter;
+
+  const time: FeaturePoint[] = [];
+  const correctness: FeaturePoint[] = [];
+  exercises.forEach((ex) => {
+    if (!ex.id || !inMode(ex)) return;
+
+    if (ex.solvedAt) {
+      const duration = getSolveTimeMs(ex)! / 1000;
+      if (duration >= 0.5 && duration <= 120) {
+        time.push({ features: toFeatureVector(ex), y: duration });
+      }
+    }
+
+    const isCorrect = getCorrectnessOutcome(ex);
+    if (isCorrect !== null) {
+      correctness.push({ features: toFeatureVector(ex), y: isCorrect });
+    }
+  });
+
+  const ratingMap = new Map<string, number[]>();
+  evaluations.forEach((evaluation) => {
+    if (modeFilter !== "all" && evaluation.mode !== modeFilter) return;
+    if (evaluation.rating < 1 || evaluation.rating > 9) return;
+
+    evaluation.exerciseIds.forEach((exerciseId) => {
+      if (!ratingMap.has(exerciseId)) ratingMap.set(exerciseId, []);
+      ratingMap.get(exerciseId)!.push(evaluation.rating);
+    });
+  });
+
+  const rating: FeaturePoint[] = [];
+  exercises.forEach((ex) => {
+    if (!ex.id) return;
+    const ratings = ratingMap.get(ex.id);
+    if (!ratings || ratings.length === 0) return;
+
+    const avgRating = ratings.reduce((sum, r) => sum + r, 0) / ratings.length;
+    rating.push({ features: toFeatureVector(ex), y: avgRating });
+  });
+
+  return {
+    rangeFeatures: exercises.filter(inMode).map(toFeatureVector),
+    time,
+    rating,
+    correctness,
+    detectOutliers,
+    outlierSensitivity,
+  };
+}
+
+/**
+ * Calculate composite score from correlations (equal weighting)
+ */
+export function calculateCompositeScore(
+  correlations: OptimizationCorrelations,
+): number {
+  let sum = 0;
+  let count = 0;
+
+  if (correlations.cl !== null) {
+    sum += correlations.cl;
+    count++;
+  }
+  if (correlations.time !== null) {
+    sum += correlations.time;
+    count++;
+  }
+  if (correlations.correctness !== null) {
+    // Use absolute value since negative correlation is still predictive
+    sum += Math.abs(correlations.correctness);
+    count++;
+  }
+
+  return count > 0 ? sum / count : 0;
+}
+
+function score(features: FeatureVector, weights: DifficultyWeights) {
+  return (
+    weights.digits * features[0] +
+    weights.carryovers * features[1] +
+    weights.zeros * features[2]
+  );
+}
+
+/**
+ * Correlations of the normalised difficulty with each outcome for one set of
+ * weights. Correctness is binary, so only its x values are checked for outliers.
+ */
+export function calculateCorrelationsForWeights(
+  weights: DifficultyWeights,
+  input: OptimizationInput,
+): OptimizationCorrelations {
+  let min = Infinity;
+  let max = -Infinity;
+  input.rangeFeatures.forEach((features) => {
+    const value = score(features, weights);
+    if (value < min) min = value;
+    if (value > max) max = value;
+  });
+  if (input.rangeFeatures.length === 0) {
+    min = 0;
+    max = 100;
+  } else if (min === max) {
+    min -= 1;
+    max += 1;
+  }
+
+  const toPoints = (points: FeaturePoint[]): DataPoint[] =>
+    points.map((point) => ({
+      x: ((score(point.features, weights) - min) / (max - min)) * 100,
+      y: point.y,
+      isOutlier: false,
+    }));
+  const correlate = (points: DataPoint[]) =>
+    calculateCorrelation(
+      applyOutlierDetection(
+        points,
+        input.outlierSensitivity,
+        input.detectOutliers,
+      ).filter((p) => !p.isOutlier),
+    );
+
+  return {
+    time: correlate(toPoints(input.time)),
+    cl: correlate(toPoints(input.rating)),
+    correctness: correlate(toPoints(input.correctness)),
+  };
+}
+
+function range(min: number, max: number, step: number) {
+  const values: number[] = [];
+  for (let value = min; value <= max; value += step) {
+    values.push(Math.round(value * 10) / 10);
+  }
+  return values;
+}
+
+/**
+ * Grid search for the weights with the best composite score, reporting
+ * progress every 100 combinations
+ */
+export function searchWeights(
+  input: OptimizationInput,
+  onProgress: (progress: OptimizationProgress) => void,
+): OptimizationResult {
+  const digitsValues = range(0, 5, 0.2);
+  const carryoversValues = range(0, 10, 0.4);
+  const zerosValues = range(0, 5, 0.2);
+
+  const total =
+    digitsValues.length * carryoversValues.length * zerosValues.length;
+  let current = 0;
+
+  let best: OptimizationResult = {
+    weights: { ...DEFAULT_DIFFICULTY_WEIGHTS },
+    correlations: { cl: null, time: null, correctness: null },
+    compositeScore: -Infinity,
+  };
+
+  for (const digits of digitsValues) {
+    for (const carryovers of carryoversValues) {
+      for (const zeros of zerosValues) {
+        const weights: DifficultyWeights = { digits, carryovers, zeros };
+        const correlations = calculateCorrelationsForWeights(weights, input);
+        const compositeScore = calculateCompositeScore(correlations);
+
+        if (compositeScore > best.compositeScore) {
+          best = { weights, correlations, compositeScore };
+        }
+
+        current++;
+        if (current % 100 === 0) {
+          onProgress({ current, total, percentage: (current / total) * 100 });
+        }
+      }
+    }
+  }
+
+  onProgress({ current: total, total, percentage: 100 });
+  return best;
+}
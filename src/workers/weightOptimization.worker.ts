@@ -0,0 +1,27 @@
+import {
+  searchWeights,
+  type OptimizationRequest,
+  type OptimizationResponse,
+} from "@/workers/weightOptimization";
+
+declare const self: DedicatedWorkerGlobalScope;
+
+function respond(message: OptimizationResponse) {
+  self.postMessage(message);
+}
+
+self.onmessage = (event: MessageEvent<OptimizationRequest>) => {
+  if (event.data.type !== "start") return;
+
+  try {
+    const result = searchWeights(event.data.input, (progress) =>
+      respond({ type: "progress", progress }),
+    );
+    respond({ type: "result", result });
+  } catch (error) {
+    respond({
+      type: "error",
+      message: error instanceof Error ? error.message : String(error),
+    });
+  }
+};
@@ -1,14 +1,84 @@
+/// <reference types="vitest/config" />
+import { createHash } from "node:crypto";
+import { readdirSync } from "node:fs";
 import { fileURLToPath, URL } from "node:url";
-import { defineConfig } from "vite";
+import { defineConfig, type Plugin } from "vite";
 import vue from "@vitejs/plugin-vue";
 import tailwindcss from "@tailwindcss/vite";
 
+const SERVICE_WORKER_ENTRY = "sw";
+// Served by the host, not the app
+const UNCACHED_PUBLIC_FILES = new Set(["_redirects"]);
+
+/**
+ * Build src/workers/serviceWorker.ts as /sw.js with the list of every file of
+ * the build, so the app is cached whole and works offline
+ */
+function precacheManifest(): Plugin {
+  return {
+    name: "precache-manifest",
+    apply: "build",
+    enforce: "post",
+    config() {
+      return {
+        build: {
+          rollupOptions: {
+            input: {
+              index: fileURLToPath(new URL("./index.html", import.meta.url)),
+              [SERVICE_WORKER_ENTRY]: fileURLToPath(
+                new URL("./src/workers/serviceWorker.ts", import.meta.url),
+              ),
+            },
+            output: {
+              entryFileNames: (chunk) =>
+                chunk.name === SERVICE_WORKER_ENTRY
+                  ? "sw.js"
+                  : "assets/[name]-[hash].js",
+            },
+          },
+        },
+      };
+    },
+    generateBundle(_options, bundle) {
+      const publicFiles = readdirSync(
+        fileURLToPath(new URL("./public", import.meta.url)),
+      ).filter((file) => !UNCACHED_PUBLIC_FILES.has(file));
+      const urls = [
+        "/index.html",
+        ...Object.keys(bundle).filter(
+          (file) => file !== "sw.js" && !file.endsWith(".map"),
+        ),
+        ...publicFiles,
+      ].map((file) => (file.startsWith("/") ? file : `/${file}`));
+      const unique = [...new Set(urls)].sort();
+      const version = createHash("sha256")
+        .update(unique.join("\n"))
+        .digest("hex")
+        .slice(0, 12);
+
+      const worker = bundle["sw.js"];
+      if (worker?.type !== "chunk") {
+        this.error("The service worker was not built.");
+      }
+      worker.code = worker.code.replace(
+        "__PRECACHE_MANIFEST__",
+        JSON.stringify({ version, urls: unique }),
+      );
+    },
+  };
+}
+
 // https://vite.dev/config/
 export default defineConfig({
-  plugins: [vue(), tailwindcss()],
+  plugins: [vue(), tailwindcss(), precacheManifest()],
   resolve: {
     alias: {
       "@": fileURLToPath(new URL("./src", import.meta.url)),
     },
   },
+  test: {
+    environment: "happy-dom",
+    // Dexie needs IndexedDB, which neither Node nor happy-dom provide
+    setupFiles: ["fake-indexeddb/auto"],
+  },
 });